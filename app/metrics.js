@@ -0,0 +1,93 @@
+// Metrics in the Prometheus text format, served at GET /metrics. Counters and
+// histograms are updated as things happen; gauges are read when scraped.
+// Every instance keeps its own numbers and Prometheus adds them up.
+
+const escapeLabel = (value) =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+export function createMetrics() {
+  const metrics = []; // { name, help, type, lines() } in the order registered
+
+  return {
+    // A count that only goes up, one series per label set
+    counter(name, help) {
+      const values = new Map(); // formatted labels -> value
+      metrics.push({
+        name,
+        help,
+        type: 'counter',
+        lines: () => Array.from(values, ([labels, value]) => `${name}${labels} ${value}`)
+      });
+
+      return {
+        inc(labels = {}, amount = 1) {
+          const key = formatLabels(labels);
+          values.set(key, (values.get(key) || 0) + amount);
+        }
+      };
+    },
+
+    // A value read at scrape time. `collect` returns a number, or a list of
+    // [labels, value] pairs for one series per label set.
+    gauge(name, help, collect) {
+      metrics.push({
+        name,
+        help,
+        type: 'gauge',
+        lines: () => {
+          const collected = collect();
+          const series = Array.isArray(collected) ? collected : [[{}, collected]];
+          return series.map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`);
+        }
+      });
+    },
+
+    // Observations counted into buckets by upper bound, plus their sum
+    histogram(name, help, buckets) {
+      const series = new Map(); // formatted labels -> { labels, counts, sum, count }
+      metrics.push({
+        name,
+        help,
+        type: 'histogram',
+        lines: () => Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+          // Buckets are cumulative: each counts everything up to its bound
+          ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[i]}`),
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${sum}`,
+          `${name}_count${formatLabels(labels)} ${count}`
+        ])
+      });
+
+      return {
+        observe(value, labels = {}) {
+          const key = formatLabels(labels);
+          if (!series.has(key)) {
+            series.set(key, { labels, counts: buckets.map(() => 0), sum: 0, count: 0 });
+          }
+
+          const entry = series.get(key);
+          buckets.forEach((bound, i) => {
+            if (value <= bound) entry.counts[i]++;
+          });
+          entry.sum += value;
+          entry.count++;
+        }
+      };
+    },
+
+    // Every metric in the text exposition format
+    render() {
+      return metrics.map(metric => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.lines()
+      ].join('\n')).join('\n') + '\n';
+    }
+  };
+}
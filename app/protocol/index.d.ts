@@ -0,0 +1,304 @@
+// Types for the frames validated in index.js; keep the two in step.
+
+export const PROTOCOL_VERSION: number;
+export const MIN_PROTOCOL_VERSION: number;
+export const SUBPROTOCOL: string;
+export const RESUME_SUBPROTOCOL_PREFIX: string;
+export const MAX_MESSAGE_LENGTH: number;
+
+// What a reply quotes from the message it answers, copied when the reply is
+// sent. Only `id` and `expired` are set if the original had already expired.
+export interface ReplyQuote {
+  id: string;
+  expired?: boolean;
+  sender?: string;
+  senderId?: string;
+  // Start of the original text; in encrypted rooms, the whole ciphertext
+  text?: string;
+  hasFile?: boolean;
+  encrypted?: boolean;
+}
+
+// A user a message mentions, resolved by the server when it was sent
+export interface Mention {
+  userId: string;
+  name: string;
+}
+
+export interface Message {
+  id: string;
+  text: string;
+  timestamp: number;
+  sender: string;
+  senderId: string;
+  fileUrl?: string | null;
+  fileName?: string | null;
+  // Set when this message was the first to share the file; unsending it
+  // deletes the file
+  fileId?: string;
+  remainingTime?: number;
+  encrypted?: boolean;
+  seq?: number;
+  viewOnce?: boolean;
+  fileConsumed?: boolean;
+  // Join/leave and host announcements posted by the server
+  isSystem?: boolean;
+  replyTo?: ReplyQuote;
+  // Set once the sender has edited the message (epoch ms)
+  editedAt?: number;
+  mentions?: Mention[];
+}
+
+// A one-to-one message, seen only by its sender and recipient
+export interface DirectMessage extends Message {
+  recipientId: string;
+  recipientName: string;
+}
+
+// Someone waiting in the lobby of a room that makes joiners knock
+export interface KnockRequest {
+  userId: string;
+  name: string;
+  requestedAt: number;
+}
+
+// What a public channel shows in its header
+export interface ChannelInfo {
+  name: string;
+  topic: string;
+}
+
+// A public channel as listed in the directory
+export interface ChannelSummary extends ChannelInfo {
+  id: string;
+  // Users in the channel right now, on every server instance
+  memberCount: number;
+  maxMembers: number | null;
+  createdAt: number;
+}
+
+// Away when the tab is hidden, the user has been idle, or their connection dropped
+export type UserStatus = 'active' | 'away';
+
+export interface RoomUser {
+  id: string;
+  name: string;
+  isHost?: boolean;
+  // Set while the host has muted this user (epoch ms)
+  mutedUntil?: number;
+  status?: UserStatus;
+}
+
+// Stable codes the server puts on `error` frames
+export type ErrorCode =
+  | 'RATE_LIMITED'
+  | 'NOT_HOST'
+  | 'INVALID_ROOM_KEY'
+  | 'CANNOT_TARGET_SELF'
+  | 'USER_NOT_IN_ROOM'
+  | 'INVALID_MUTE_DURATION'
+  | 'ENCRYPTION_REQUIRED'
+  | 'MUTED'
+  | 'MESSAGE_EMPTY'
+  | 'MESSAGE_TOO_LONG'
+  | 'INVALID_USERNAME'
+  | 'INVALID_TTL'
+  | 'BANNED'
+  | 'ROOM_LOCKED'
+  | 'USERNAME_TAKEN'
+  | 'INVALID_MESSAGE'
+  | 'UNSUPPORTED_PROTOCOL'
+  | 'MESSAGE_NOT_FOUND'
+  | 'NOT_MESSAGE_OWNER'
+  | 'INVALID_INVITE'
+  | 'INVALID_CHANNEL'
+  | 'CHANNEL_NAME_TAKEN'
+  | 'ROOM_FULL'
+  | 'INVALID_MEMBER_LIMIT';
+
+// Extra context on an error; which fields are set depends on the code
+export interface ErrorDetails {
+  // RATE_LIMITED: the limited action and ms until it is allowed again
+  action?: string;
+  retryAfter?: number;
+  // Room and username of a refused join
+  roomId?: string;
+  username?: string;
+  userId?: string;
+  messageId?: string;
+  // MUTED: when the mute ends (epoch ms)
+  until?: number;
+  maxMinutes?: number;
+  // ROOM_FULL: the room's member cap. INVALID_MEMBER_LIMIT: the largest allowed.
+  maxMembers?: number;
+  // MESSAGE_TOO_LONG: the most characters a message may have
+  maxLength?: number;
+  // CHANNEL_NAME_TAKEN: the name asked for
+  name?: string;
+  options?: number[];
+  // INVALID_MESSAGE: what was wrong with the frame
+  reason?: string;
+  // UNSUPPORTED_PROTOCOL: versions the server accepts
+  minVersion?: number;
+  maxVersion?: number;
+}
+
+// Frames a client sends
+export type ClientFrame =
+  | { type: 'ping' }
+  | {
+      type: 'message';
+      text?: string;
+      fileUrl?: string;
+      fileName?: string;
+      encrypted?: boolean;
+      viewOnce?: boolean;
+      // ID of the message being answered
+      replyTo?: string;
+      // User IDs mentioned in an encrypted message, which the server can't read
+      mentions?: string[];
+    }
+  | { type: 'edit_message'; messageId: string; text: string; encrypted?: boolean; mentions?: string[] }
+  | { type: 'delete_message'; messageId: string }
+  // Only to someone in the sender's current room
+  | { type: 'direct_message'; userId: string; text: string; encrypted?: boolean }
+  | { type: 'dm_history'; userId: string }
+  | {
+      type: 'create_room';
+      roomAuth: string;
+      username?: string;
+      ttl?: number;
+      // Joiners wait in a lobby until someone in the room lets them in
+      knock?: boolean;
+      maxMembers?: number | null;
+    }
+  // Listed in the channel directory and open to anyone, without a key
+  | { type: 'create_channel'; name: string; topic?: string; maxMembers?: number | null; username?: string }
+  // `roomAuth` is ignored for public channels
+  | { type: 'join_room'; roomId: string; roomAuth: string; username?: string }
+  // Start or stop receiving `channel_list` whenever the directory changes
+  | { type: 'watch_channels'; watching: boolean }
+  // Let someone in the lobby of the current room in, or turn them away
+  | { type: 'answer_knock'; userId: string; approve: boolean }
+  // Stop waiting in a lobby
+  | { type: 'cancel_knock' }
+  | { type: 'replay'; roomId: string; afterSeq: number }
+  | { type: 'leave_room' }
+  | { type: 'typing'; typing: boolean }
+  | { type: 'set_status'; status: UserStatus }
+  | { type: 'kick_user'; userId: string }
+  | { type: 'mute_user'; userId: string; minutes: number }
+  | { type: 'ban_user'; userId: string }
+  | { type: 'transfer_host'; userId: string }
+  | { type: 'lock_room'; locked: boolean }
+  | {
+      // New room key, encrypted with the current one
+      type: 'rotate_key';
+      roomAuth: string;
+      sealedKey: string;
+    }
+  | {
+      // The room key encrypted with a secret that only travels in the invite link
+      type: 'create_invite';
+      sealedKey: string;
+      singleUse: boolean;
+      // How long the invite lasts (ms)
+      ttl: number;
+    }
+  | { type: 'redeem_invite'; roomId: string; token: string };
+
+// Frames the server sends
+export type ServerFrame =
+  | {
+      type: 'identity';
+      userId: string;
+      anonName: string;
+      resumeToken: string;
+      resumed: boolean;
+      maxFileSize: number;
+      protocolVersion: number;
+    }
+  | {
+      type: 'init';
+      roomId: string;
+      messages: Message[];
+      seq: number;
+      ttl: number;
+      username: string;
+      encrypted: boolean;
+      hostId: string | null;
+      locked: boolean;
+      maxMembers?: number | null;
+      knock?: boolean;
+      // Waiting in the lobby, oldest first
+      knocks?: KnockRequest[];
+      // Set in public channels
+      channel?: ChannelInfo;
+    }
+  | {
+      type: 'replay';
+      roomId: string;
+      messages: Message[];
+      seq: number;
+      historyLost: boolean;
+    }
+  | { type: 'new_message'; message: Message }
+  | {
+      type: 'message_edited';
+      roomId: string;
+      messageId: string;
+      text: string;
+      editedAt: number;
+      mentions?: Mention[];
+    }
+  | { type: 'message_deleted'; roomId: string; messageId: string }
+  | { type: 'direct_message'; message: DirectMessage }
+  // The thread with `userId`, messages not yet expired
+  | { type: 'dm_history'; userId: string; messages: DirectMessage[] }
+  | { type: 'file_consumed'; roomId: string; fileUrl: string }
+  | { type: 'room_created'; roomId: string; username: string; encrypted: boolean }
+  | {
+      type: 'room_updated';
+      roomId: string;
+      hostId: string | null;
+      locked: boolean;
+      maxMembers?: number | null;
+      knock?: boolean;
+      knocks?: KnockRequest[];
+      channel?: ChannelInfo;
+    }
+  // Public channels, busiest first
+  | { type: 'channel_list'; channels: ChannelSummary[] }
+  | { type: 'kicked'; roomId: string; banned: boolean }
+  | {
+      // New room key, encrypted with the current one by the host
+      type: 'key_rotated';
+      roomId: string;
+      sealedKey: string;
+    }
+  | { type: 'invite_created'; roomId: string; token: string; singleUse: boolean; expiresAt: number }
+  // What the host sealed when creating the invite
+  | { type: 'invite_redeemed'; roomId: string; sealedKey: string }
+  // The join is on hold until someone in the room answers
+  | { type: 'knock_pending'; roomId: string }
+  // Turned away, or the room went away while waiting. Being let in sends `init`.
+  | { type: 'knock_denied'; roomId: string }
+  | { type: 'room_users'; roomId: string; count: number }
+  | { type: 'room_user_list'; roomId: string; users: RoomUser[] }
+  | { type: 'typing'; roomId: string; userId: string; name: string; typing: boolean }
+  | {
+      type: 'error';
+      code: ErrorCode;
+      message: string;
+      details?: ErrorDetails;
+    }
+  | { type: 'pong' };
+
+// Matches `@name` for any of the names (captured without the `@`), or null if there are none
+export function mentionPattern(names: string[]): RegExp | null;
+// The users a text mentions, once each
+export function resolveMentions(text: string, users: Array<{ id: string; name: string }>): Mention[];
+
+// Each returns null for a valid frame, otherwise what is wrong with it
+export function validateClientFrame(frame: unknown): string | null;
+export function validateServerFrame(frame: unknown): string | null;
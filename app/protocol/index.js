@@ -0,0 +1,323 @@
+// The WebSocket protocol between the browser and server.js, in both
+// directions. The server validates every frame a client sends and the client
+// every frame it receives, both against the schemas below. TypeScript types
+// for the same frames are in index.d.ts; keep the two in step.
+
+// Bumped whenever a change would break clients built for an older version
+export const PROTOCOL_VERSION = 1;
+// Oldest client version the server still talks to
+export const MIN_PROTOCOL_VERSION = 1;
+// WebSocket subprotocol every client offers. A reconnecting client also
+// offers RESUME_SUBPROTOCOL_PREFIX + its resume token, which keeps the token
+// out of the URL that proxies and access logs record.
+export const SUBPROTOCOL = 'oneminute';
+export const RESUME_SUBPROTOCOL_PREFIX = 'oneminute.resume.';
+// Longest message text, in characters, before any encryption
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// --- Schema building blocks ---
+// Each returns a check: (value, path) => a description of what is wrong, or null
+
+const string = () => (value, path) =>
+  typeof value === 'string' ? null : `${path} must be a string`;
+
+const number = () => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a number`;
+
+const boolean = () => (value, path) =>
+  typeof value === 'boolean' ? null : `${path} must be a boolean`;
+
+const oneOf = (...values) => (value, path) =>
+  values.includes(value) ? null : `${path} must be one of ${values.join(', ')}`;
+
+const optional = (check) => (value, path) =>
+  value === undefined ? null : check(value, path);
+
+const nullable = (check) => (value, path) =>
+  value === null ? null : check(value, path);
+
+const arrayOf = (check) => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  for (let i = 0; i < value.length; i++) {
+    const error = check(value[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Fields not listed are ignored, so either side can add some without
+// breaking the other
+const object = (shape) => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `${path} must be an object`;
+  }
+  for (const [key, check] of Object.entries(shape)) {
+    const error = check(value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+// --- Shared shapes ---
+
+// The quote a reply carries; only `id` and `expired` if the original was gone
+const replyQuote = object({
+  id: string(),
+  expired: optional(boolean()),
+  sender: optional(string()),
+  senderId: optional(string()),
+  text: optional(string()),
+  hasFile: optional(boolean()),
+  encrypted: optional(boolean())
+});
+
+// A user a message mentions, resolved when it was sent
+const mention = object({ userId: string(), name: string() });
+
+const messageShape = {
+  id: string(),
+  text: string(),
+  timestamp: number(),
+  sender: string(),
+  senderId: string(),
+  fileUrl: optional(nullable(string())),
+  fileName: optional(nullable(string())),
+  fileId: optional(string()),
+  remainingTime: optional(number()),
+  encrypted: optional(boolean()),
+  seq: optional(number()),
+  viewOnce: optional(boolean()),
+  fileConsumed: optional(boolean()),
+  isSystem: optional(boolean()),
+  replyTo: optional(replyQuote),
+  editedAt: optional(number()),
+  mentions: optional(arrayOf(mention))
+};
+
+const message = object(messageShape);
+
+// A one-to-one message, seen only by its sender and recipient
+const directMessage = object({
+  ...messageShape,
+  recipientId: string(),
+  recipientName: string()
+});
+
+const roomUser = object({
+  id: string(),
+  name: string(),
+  isHost: optional(boolean()),
+  mutedUntil: optional(number()),
+  status: optional(oneOf('active', 'away'))
+});
+
+// Someone waiting in the lobby of a room that makes joiners knock
+const knockRequest = object({ userId: string(), name: string(), requestedAt: number() });
+
+// What a public channel shows in its header
+const channelInfo = object({ name: string(), topic: string() });
+
+// A public channel as listed in the directory
+const channelSummary = object({
+  id: string(),
+  name: string(),
+  topic: string(),
+  memberCount: number(),
+  maxMembers: nullable(number()),
+  createdAt: number()
+});
+
+// --- Client → server frames, by type ---
+
+const CLIENT_FRAMES = {
+  ping: {},
+  message: {
+    text: optional(string()),
+    fileUrl: optional(nullable(string())),
+    fileName: optional(nullable(string())),
+    encrypted: optional(boolean()),
+    viewOnce: optional(boolean()),
+    // ID of the message being answered
+    replyTo: optional(string()),
+    // User IDs mentioned in an encrypted message, which the server can't read
+    mentions: optional(arrayOf(string()))
+  },
+  // Only honoured for the sender's own stored messages
+  edit_message: {
+    messageId: string(),
+    text: string(),
+    encrypted: optional(boolean()),
+    mentions: optional(arrayOf(string()))
+  },
+  delete_message: { messageId: string() },
+  // Only to someone in the sender's current room
+  direct_message: { userId: string(), text: string(), encrypted: optional(boolean()) },
+  dm_history: { userId: string() },
+  create_room: {
+    roomAuth: string(),
+    username: optional(string()),
+    ttl: optional(number()),
+    // Joiners wait in a lobby until someone in the room lets them in
+    knock: optional(boolean()),
+    maxMembers: optional(nullable(number()))
+  },
+  // Listed in the channel directory and open to anyone, without a key
+  create_channel: {
+    name: string(),
+    topic: optional(string()),
+    maxMembers: optional(nullable(number())),
+    username: optional(string())
+  },
+  // `roomAuth` is ignored for public channels
+  join_room: {
+    roomId: string(),
+    roomAuth: string(),
+    username: optional(string())
+  },
+  // Start or stop receiving `channel_list` whenever the directory changes
+  watch_channels: { watching: boolean() },
+  // Let someone in the lobby of the current room in, or turn them away
+  answer_knock: { userId: string(), approve: boolean() },
+  // Stop waiting in a lobby
+  cancel_knock: {},
+  replay: {
+    roomId: string(),
+    afterSeq: number()
+  },
+  leave_room: {},
+  typing: { typing: boolean() },
+  set_status: { status: oneOf('active', 'away') },
+  kick_user: { userId: string() },
+  mute_user: { userId: string(), minutes: number() },
+  ban_user: { userId: string() },
+  transfer_host: { userId: string() },
+  lock_room: { locked: boolean() },
+  rotate_key: { roomAuth: string(), sealedKey: string() },
+  // The room key encrypted with a secret that only travels in the invite link
+  create_invite: { sealedKey: string(), singleUse: boolean(), ttl: number() },
+  redeem_invite: { roomId: string(), token: string() }
+};
+
+// --- Server → client frames, by type ---
+
+const SERVER_FRAMES = {
+  identity: {
+    userId: string(),
+    anonName: string(),
+    resumeToken: string(),
+    resumed: boolean(),
+    maxFileSize: number(),
+    protocolVersion: number()
+  },
+  init: {
+    roomId: string(),
+    messages: arrayOf(message),
+    seq: number(),
+    ttl: number(),
+    username: string(),
+    encrypted: boolean(),
+    hostId: nullable(string()),
+    locked: boolean(),
+    maxMembers: optional(nullable(number())),
+    knock: optional(boolean()),
+    knocks: optional(arrayOf(knockRequest)),
+    channel: optional(channelInfo)
+  },
+  replay: {
+    roomId: string(),
+    messages: arrayOf(message),
+    seq: number(),
+    historyLost: boolean()
+  },
+  new_message: { message },
+  message_edited: {
+    roomId: string(),
+    messageId: string(),
+    text: string(),
+    editedAt: number(),
+    mentions: optional(arrayOf(mention))
+  },
+  message_deleted: { roomId: string(), messageId: string() },
+  direct_message: { message: directMessage },
+  // The thread with `userId`, messages not yet expired
+  dm_history: { userId: string(), messages: arrayOf(directMessage) },
+  file_consumed: { roomId: string(), fileUrl: string() },
+  room_created: { roomId: string(), username: string(), encrypted: boolean() },
+  room_updated: {
+    roomId: string(),
+    hostId: nullable(string()),
+    locked: boolean(),
+    maxMembers: optional(nullable(number())),
+    knock: optional(boolean()),
+    knocks: optional(arrayOf(knockRequest)),
+    channel: optional(channelInfo)
+  },
+  channel_list: { channels: arrayOf(channelSummary) },
+  kicked: { roomId: string(), banned: boolean() },
+  key_rotated: { roomId: string(), sealedKey: string() },
+  invite_created: { roomId: string(), token: string(), singleUse: boolean(), expiresAt: number() },
+  invite_redeemed: { roomId: string(), sealedKey: string() },
+  // The join is on hold until someone in the room answers
+  knock_pending: { roomId: string() },
+  // Turned away, or the room went away while waiting. Being let in sends `init`.
+  knock_denied: { roomId: string() },
+  room_users: { roomId: string(), count: number() },
+  room_user_list: { roomId: string(), users: arrayOf(roomUser) },
+  typing: { roomId: string(), userId: string(), name: string(), typing: boolean() },
+  // Codes are not checked against a list: a newer server may send ones we
+  // don't know yet, and the client falls back to `message` for those
+  error: { code: string(), message: string(), details: optional(object({})) },
+  pong: {}
+};
+
+// --- Mentions ---
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `@name` for any of the given names, ignoring case, but not inside
+// a word or an email address. The name is captured without the `@`.
+export function mentionPattern(names) {
+  const alternatives = [...new Set(names.filter(Boolean))]
+    .sort((a, b) => b.length - a.length) // prefer "@Ann Lee" over "@Ann"
+    .map(escapeRegExp);
+  if (alternatives.length === 0) return null;
+  return new RegExp(`(?<![\\w@.])@(${alternatives.join('|')})(?![\\w])`, 'gi');
+}
+
+// The users a text mentions, once each. Users who share a name are all
+// mentioned, since there is no telling which one was meant.
+export function resolveMentions(text, users) {
+  const pattern = text.includes('@') && mentionPattern(users.map(user => user.name));
+  if (!pattern) return [];
+
+  const named = new Set(Array.from(text.matchAll(pattern), match => match[1].toLowerCase()));
+  const mentions = new Map();
+  users.forEach(user => {
+    if (user.name && named.has(user.name.toLowerCase()) && !mentions.has(user.id)) {
+      mentions.set(user.id, { userId: user.id, name: user.name });
+    }
+  });
+  return Array.from(mentions.values());
+}
+
+function validateFrame(frames, frame) {
+  if (typeof frame !== 'object' || frame === null || Array.isArray(frame)) {
+    return 'frame must be an object';
+  }
+  if (!Object.prototype.hasOwnProperty.call(frames, frame.type)) {
+    return `unknown frame type ${JSON.stringify(frame.type)}`;
+  }
+  return object(frames[frame.type])(frame, frame.type);
+}
+
+// Check a frame sent by a client. Returns null if it is valid, otherwise
+// what is wrong with it.
+export function validateClientFrame(frame) {
+  return validateFrame(CLIENT_FRAMES, frame);
+}
+
+// Check a frame sent by the server. Returns null if it is valid, otherwise
+// what is wrong with it.
+export function validateServerFrame(frame) {
+  return validateFrame(SERVER_FRAMES, frame);
+}
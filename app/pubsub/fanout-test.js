@@ -0,0 +1,100 @@
+// Checks that chat messages reach clients on other instances over the redis
+// bus: starts the local stand-in and two server.js processes, then sends a
+// message through each instance and waits for it on the other.
+//
+//   npm run test:pubsub
+
+import net from 'net';
+import path from 'path';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import WebSocket from 'ws';
+import { createStandIn } from './standin.js';
+import { PROTOCOL_VERSION } from '../protocol/index.js';
+
+const SERVER_PATH = fileURLToPath(new URL('../server.js', import.meta.url));
+const START_TIMEOUT = 10 * 1000; // for an instance to accept connections
+const DELIVERY_TIMEOUT = 5 * 1000; // for a message to reach the other instance
+
+// A port nothing is listening on right now
+const freePort = () => new Promise((resolve, reject) => {
+  const server = net.createServer().listen(0, () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+  server.on('error', reject);
+});
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+function startInstance(port, redisPort) {
+  const child = spawn(process.execPath, [SERVER_PATH], {
+    cwd: path.dirname(SERVER_PATH),
+    env: { ...process.env, PORT: String(port), PUBSUB: 'redis', REDIS_URL: `redis://localhost:${redisPort}` },
+    stdio: ['ignore', 'ignore', 'inherit']
+  });
+  child.on('exit', (code) => {
+    if (code !== null && code !== 0) console.error(`Instance on port ${port} exited with code ${code}`);
+  });
+  return child;
+}
+
+// Connect once the instance is up, keeping every frame it sends
+async function connect(port) {
+  const deadline = Date.now() + START_TIMEOUT;
+  for (;;) {
+    try {
+      return await new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://localhost:${port}/?protocol=${PROTOCOL_VERSION}`);
+        ws.frames = [];
+        ws.on('message', (data) => ws.frames.push(JSON.parse(data)));
+        ws.once('open', () => resolve(ws));
+        ws.once('error', reject);
+      });
+    } catch (error) {
+      if (Date.now() > deadline) throw new Error(`Instance on port ${port} did not start: ${error.message}`);
+      await wait(200);
+    }
+  }
+}
+
+// Send from one client until the other sees it. The first sends can go out
+// before the receiving instance has subscribed.
+async function expectDelivery(from, to, label) {
+  const text = `fan-out check ${label} ${Date.now()}`;
+  const deadline = Date.now() + DELIVERY_TIMEOUT;
+  while (Date.now() < deadline) {
+    from.send(JSON.stringify({ type: 'message', text }));
+    await wait(1000);
+    if (to.frames.some(frame => frame.type === 'new_message' && frame.message?.text === text)) {
+      console.log(`ok - ${label}`);
+      return true;
+    }
+  }
+  console.error(`not ok - ${label}: message never arrived`);
+  return false;
+}
+
+const redisPort = await freePort();
+const standIn = createStandIn();
+await new Promise(resolve => standIn.listen(redisPort, resolve));
+
+const ports = [await freePort(), await freePort()];
+const instances = ports.map(port => startInstance(port, redisPort));
+const clients = [];
+
+let passed = false;
+try {
+  clients.push(...await Promise.all(ports.map(connect)));
+  const [a, b] = clients;
+  passed = (await expectDelivery(a, b, 'first instance to second')) &&
+    (await expectDelivery(b, a, 'second instance to first'));
+} catch (error) {
+  console.error(`not ok - ${error.message}`);
+} finally {
+  clients.forEach(client => client.close());
+  instances.forEach(instance => instance.kill());
+  standIn.close();
+}
+
+process.exit(passed ? 0 : 1);
@@ -0,0 +1,25 @@
+// Pub/sub buses that let several server instances share room traffic.
+//
+// Every bus exposes the same interface:
+//   publish(channel, message)   send a JSON-serializable message
+//   subscribe(channel, handler) receive every message on a channel, including
+//                               the ones this instance published itself
+//   close()
+// Each subscriber sees messages in the order they were published.
+
+import { createMemoryPubSub } from './memory.js';
+import { createRedisPubSub } from './redis.js';
+
+export function createPubSub({
+  backend = process.env.PUBSUB || 'memory',
+  url = process.env.REDIS_URL || 'redis://localhost:6379'
+} = {}) {
+  switch (backend) {
+    case 'memory':
+      return createMemoryPubSub();
+    case 'redis':
+      return createRedisPubSub(url);
+    default:
+      throw new Error(`Unknown pub/sub backend "${backend}" (expected "memory" or "redis")`);
+  }
+}
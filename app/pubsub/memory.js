@@ -0,0 +1,25 @@
+// In-process pub/sub. Only this server sees its own messages, which is all a
+// single instance needs.
+
+export function createMemoryPubSub() {
+  const handlers = new Map(); // channel -> Set of handlers
+
+  return {
+    publish(channel, message) {
+      // Hand every subscriber its own copy, as a network bus would
+      const payload = JSON.stringify(message);
+      handlers.get(channel)?.forEach(handler => handler(JSON.parse(payload)));
+    },
+
+    subscribe(channel, handler) {
+      if (!handlers.has(channel)) {
+        handlers.set(channel, new Set());
+      }
+      handlers.get(channel).add(handler);
+    },
+
+    close() {
+      handlers.clear();
+    }
+  };
+}
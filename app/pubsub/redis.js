@@ -0,0 +1,215 @@
+// Redis pub/sub over a plain TCP socket, speaking just enough of the Redis
+// protocol (RESP) for AUTH, PUBLISH and SUBSCRIBE. Anything that implements
+// those commands works, such as the local stand-in in standin.js.
+//
+// Subscribing blocks a Redis connection for anything else, so there is one
+// connection for publishing and one for receiving. Both reconnect on their
+// own; messages published while a connection is down are lost.
+
+import net from 'net';
+
+const RECONNECT_DELAY = 1000; // doubled after every failed attempt
+const MAX_RECONNECT_DELAY = 30 * 1000;
+const MAX_QUEUED_MESSAGES = 1000; // publishes kept while disconnected
+
+// Encode a command as a RESP array of bulk strings
+function encodeCommand(args) {
+  const parts = [Buffer.from(`*${args.length}\r\n`)];
+  args.forEach(arg => {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  });
+  return Buffer.concat(parts);
+}
+
+// Parse one RESP reply starting at `offset`. Returns [value, nextOffset], or
+// null if the buffer does not hold the whole reply yet.
+export function parseReply(buffer, offset) {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new Error(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return [null, next];
+      if (buffer.length < next + length + 2) return null;
+      return [buffer.toString('utf8', next, next + length), next + length + 2];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return [null, next];
+
+      const items = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item[0]);
+        position = item[1];
+      }
+      return [items, position];
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+// A connection that reconnects with backoff and calls onReady each time
+function openConnection({ host, port, password, name, onReady, onReply }) {
+  let socket = null;
+  let buffer = Buffer.alloc(0);
+  let delay = RECONNECT_DELAY;
+  let connected = false;
+  let closed = false;
+
+  function open() {
+    socket = net.createConnection({ host, port });
+    socket.setNoDelay(true);
+
+    socket.on('connect', () => {
+      connected = true;
+      delay = RECONNECT_DELAY;
+      console.log(`Pub/sub ${name} connection ready (${host}:${port})`);
+
+      if (password) {
+        socket.write(encodeCommand(['AUTH', password]));
+      }
+      onReady();
+    });
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let reply;
+        while ((reply = parseReply(buffer, 0))) {
+          buffer = buffer.subarray(reply[1]);
+          onReply(reply[0]);
+        }
+      } catch (error) {
+        console.error(`Pub/sub ${name} connection got a bad reply:`, error);
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error(`Pub/sub ${name} connection error:`, error.message);
+    });
+
+    socket.on('close', () => {
+      connected = false;
+      buffer = Buffer.alloc(0);
+      if (closed) return;
+
+      setTimeout(open, delay);
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+    });
+  }
+
+  open();
+
+  return {
+    isConnected: () => connected,
+    send: (args) => socket.write(encodeCommand(args)),
+    close() {
+      closed = true;
+      socket.end();
+    }
+  };
+}
+
+export function createRedisPubSub(url) {
+  const { hostname, port, password } = new URL(url);
+  const options = {
+    host: hostname || 'localhost',
+    port: Number(port) || 6379,
+    password: password ? decodeURIComponent(password) : null
+  };
+
+  const handlers = new Map(); // channel -> Set of handlers
+  const queued = []; // [channel, payload] waiting for both connections
+
+  // Hold publishes until we are subscribed too, so we never miss replies to
+  // our own messages
+  const isReady = () => publisher.isConnected() && subscriber.isConnected();
+
+  function flushQueue() {
+    if (!isReady()) return;
+    queued.splice(0).forEach(([channel, payload]) => publisher.send(['PUBLISH', channel, payload]));
+  }
+
+  const publisher = openConnection({
+    ...options,
+    name: 'publish',
+    onReady: flushQueue,
+    onReply(reply) {
+      if (reply instanceof Error) {
+        console.error('Pub/sub publish failed:', reply.message);
+      }
+    }
+  });
+
+  const subscriber = openConnection({
+    ...options,
+    name: 'subscribe',
+    onReady() {
+      if (handlers.size > 0) {
+        subscriber.send(['SUBSCRIBE', ...handlers.keys()]);
+      }
+      flushQueue();
+    },
+    onReply(reply) {
+      if (reply instanceof Error) {
+        console.error('Pub/sub subscribe failed:', reply.message);
+        return;
+      }
+      if (!Array.isArray(reply) || reply[0] !== 'message') return;
+
+      const [, channel, payload] = reply;
+      let message;
+      try {
+        message = JSON.parse(payload);
+      } catch {
+        console.error(`Ignoring malformed pub/sub message on ${channel}`);
+        return;
+      }
+      handlers.get(channel)?.forEach(handler => handler(message));
+    }
+  });
+
+  return {
+    publish(channel, message) {
+      const payload = JSON.stringify(message);
+      if (isReady()) {
+        publisher.send(['PUBLISH', channel, payload]);
+      } else if (queued.length < MAX_QUEUED_MESSAGES) {
+        queued.push([channel, payload]);
+      }
+    },
+
+    subscribe(channel, handler) {
+      if (!handlers.has(channel)) {
+        handlers.set(channel, new Set());
+        if (subscriber.isConnected()) {
+          subscriber.send(['SUBSCRIBE', channel]);
+        }
+      }
+      handlers.get(channel).add(handler);
+    },
+
+    close() {
+      publisher.close();
+      subscriber.close();
+      handlers.clear();
+    }
+  };
+}
@@ -0,0 +1,93 @@
+// A local stand-in for Redis that speaks the part of RESP the redis bus uses:
+// AUTH, PING, SUBSCRIBE, UNSUBSCRIBE and PUBLISH. Enough to run several
+// instances on one machine without installing Redis:
+//
+//   node pubsub/standin.js [port]
+//
+// Messages go to subscribers in the order they were published, as with
+// Redis. Nothing is stored and any password is accepted.
+
+import net from 'net';
+import { fileURLToPath } from 'url';
+import { parseReply } from './redis.js';
+
+// Encode a reply: strings as bulk strings, numbers as integers, arrays of either
+function encodeReply(value) {
+  if (typeof value === 'number') return Buffer.from(`:${value}\r\n`);
+  if (!Array.isArray(value)) {
+    const data = Buffer.from(String(value));
+    return Buffer.concat([Buffer.from(`$${data.length}\r\n`), data, Buffer.from('\r\n')]);
+  }
+  return Buffer.concat([Buffer.from(`*${value.length}\r\n`), ...value.map(encodeReply)]);
+}
+
+export function createStandIn() {
+  const channels = new Map(); // channel -> Set of subscribed sockets
+
+  function unsubscribe(socket, channel) {
+    channels.get(channel)?.delete(socket);
+    if (channels.get(channel)?.size === 0) channels.delete(channel);
+  }
+
+  function handleCommand(socket, subscribed, [name = '', ...args]) {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        socket.write('+OK\r\n');
+        break;
+      case 'PING':
+        socket.write('+PONG\r\n');
+        break;
+      case 'SUBSCRIBE':
+        args.forEach(channel => {
+          if (!channels.has(channel)) channels.set(channel, new Set());
+          channels.get(channel).add(socket);
+          subscribed.add(channel);
+          socket.write(encodeReply(['subscribe', channel, subscribed.size]));
+        });
+        break;
+      case 'UNSUBSCRIBE':
+        (args.length > 0 ? args : Array.from(subscribed)).forEach(channel => {
+          unsubscribe(socket, channel);
+          subscribed.delete(channel);
+          socket.write(encodeReply(['unsubscribe', channel, subscribed.size]));
+        });
+        break;
+      case 'PUBLISH': {
+        const [channel, payload] = args;
+        const receivers = channels.get(channel) ?? new Set();
+        receivers.forEach(receiver => receiver.write(encodeReply(['message', channel, payload])));
+        socket.write(encodeReply(receivers.size));
+        break;
+      }
+      default:
+        socket.write(`-ERR unknown command '${name}'\r\n`);
+    }
+  }
+
+  return net.createServer((socket) => {
+    const subscribed = new Set();
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let command;
+        while ((command = parseReply(buffer, 0))) {
+          buffer = buffer.subarray(command[1]);
+          if (Array.isArray(command[0])) handleCommand(socket, subscribed, command[0]);
+        }
+      } catch {
+        socket.destroy(); // not RESP
+      }
+    });
+
+    socket.on('error', () => {});
+    socket.on('close', () => subscribed.forEach(channel => unsubscribe(socket, channel)));
+  });
+}
+
+// Run on its own from the command line
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.argv[2]) || 6379;
+  createStandIn().listen(port, () => console.log(`Pub/sub stand-in listening on port ${port}`));
+}
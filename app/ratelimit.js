@@ -0,0 +1,70 @@
+// Token-bucket rate limiting. Every action has one bucket per key (user ID,
+// client IP, ...) holding up to `capacity` tokens, refilled at `perMinute`.
+// Each kind of key has its own limits, so the bucket everyone behind one
+// address shares can be much larger than one user's. A request takes a token
+// from each bucket it is keyed on: short bursts are fine, a sustained flood
+// is not.
+
+// Parse a "capacity/perMinute" setting such as "5/20"
+export function parseRateLimit(value, fallback) {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value || '');
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) return fallback;
+  return { capacity: Number(match[1]), perMinute: Number(match[2]) };
+}
+
+// `limits` maps each action to its limits by kind of key, e.g.
+// { message: { user: { capacity, perMinute }, ip: { capacity, perMinute } } }
+export function createRateLimiter(limits) {
+  const buckets = new Map(); // `${action}:${kind}:${key}` -> { tokens, updatedAt, limit }
+
+  // A bucket topped up for the time since it was last used
+  function getBucket(action, kind, key, now) {
+    const limit = limits[action][kind];
+    const id = `${action}:${kind}:${key}`;
+    const bucket = buckets.get(id) || { tokens: limit.capacity, updatedAt: now, limit };
+
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + (now - bucket.updatedAt) * limit.perMinute / 60000);
+    bucket.updatedAt = now;
+    buckets.set(id, bucket);
+    return bucket;
+  }
+
+  return {
+    // Take a token for `action` from the bucket of every key in `keys`, an
+    // object of kind -> key such as { user, ip }. Kinds the action has no
+    // limit for are ignored. Returns 0 if the request may go ahead, otherwise
+    // the milliseconds until it could.
+    take(action, keys) {
+      const now = Date.now();
+      const keyBuckets = Object.entries(keys)
+        .filter(([kind, key]) => key && limits[action][kind])
+        .map(([kind, key]) => getBucket(action, kind, key, now));
+
+      const retryAfter = Math.max(0, ...keyBuckets.map(bucket =>
+        bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * 60000 / bucket.limit.perMinute)
+      ));
+      if (retryAfter > 0) return retryAfter;
+
+      keyBuckets.forEach(bucket => {
+        bucket.tokens -= 1;
+      });
+      return 0;
+    },
+
+    // Forget every bucket for a key of one kind, e.g. a user whose session ended
+    forget(kind, key) {
+      Object.keys(limits).forEach(action => buckets.delete(`${action}:${kind}:${key}`));
+    },
+
+    // Drop buckets that have filled up again; they hold no information
+    sweep() {
+      const now = Date.now();
+      buckets.forEach((bucket, id) => {
+        const { capacity, perMinute } = bucket.limit;
+        if (bucket.tokens + (now - bucket.updatedAt) * perMinute / 60000 >= capacity) {
+          buckets.delete(id);
+        }
+      });
+    }
+  };
+}
@@ -1,6 +1,19 @@
 import { WebSocketServer } from 'ws';
 import http from 'http';
 import crypto from 'crypto';
+import { createStorage } from './storage/index.js';
+import { createPubSub } from './pubsub/index.js';
+import { createRateLimiter, parseRateLimit } from './ratelimit.js';
+import { createMetrics } from './metrics.js';
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  MAX_MESSAGE_LENGTH,
+  SUBPROTOCOL,
+  RESUME_SUBPROTOCOL_PREFIX,
+  validateClientFrame,
+  resolveMentions
+} from './protocol/index.js';
 
 const adjectives = ['Blue', 'Silent', 'Quick', 'Hidden', 'Cold', 'Dark'];
 const animals = ['Fox', 'Wolf', 'Owl', 'Tiger', 'Raven', 'Shark'];
@@ -15,32 +28,168 @@ function generateAnonName() {
 }
 
 const PORT = process.env.PORT || 3000;
-const MESSAGE_TTL = 10 * 60 * 1000; // 10 minutes in milliseconds
-const RATE_LIMIT_WINDOW = 3000; // 3 seconds for messages
-const RATE_LIMIT_UPLOAD = 5000; // 5 seconds for uploads ✅ NEW
-const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1 MB
-
-// In-memory storage
-const files = new Map(); // fileId -> { data, mimeType, timestamp, fileName }
-const rateLimits = new Map(); // socketId/IP -> lastMessageTime
+// Message lifetime for the global room, configurable in minutes (default 10)
+const MESSAGE_TTL = (Number(process.env.MESSAGE_TTL_MINUTES) || 10) * 60 * 1000;
+// Lifetimes a private room can pick from
+const ROOM_TTL_OPTIONS = [
+  1 * 60 * 1000, // 1 minute
+  10 * 60 * 1000, // 10 minutes
+  60 * 60 * 1000 // 1 hour
+];
+const DEFAULT_ROOM_TTL = 10 * 60 * 1000;
+// How long an empty public channel is kept for people to come back (default 5 minutes)
+const CHANNEL_GRACE = (Number(process.env.CHANNEL_GRACE_MINUTES) || 5) * 60 * 1000;
+// How long an invite issued by a room host can stay valid
+const INVITE_TTL_OPTIONS = [
+  10 * 60 * 1000, // 10 minutes
+  60 * 60 * 1000, // 1 hour
+  24 * 60 * 60 * 1000 // 1 day
+];
+// Token buckets per action and kind of key: `capacity` requests in a burst,
+// refilled at `perMinute`. Override with e.g. RATE_LIMIT_MESSAGE=5/20, or
+// RATE_LIMIT_MESSAGE_IP=50/200 for the bucket a whole address shares. Offices
+// and NATs put many users behind one address, so those are ten times larger.
+const rateLimit = (name, capacity, perMinute) =>
+  parseRateLimit(process.env[`RATE_LIMIT_${name}`], { capacity, perMinute });
+const RATE_LIMITS = {
+  message: { user: rateLimit('MESSAGE', 5, 20), ip: rateLimit('MESSAGE_IP', 50, 200) },
+  upload: { ip: rateLimit('UPLOAD', 3, 12) },
+  join: { user: rateLimit('JOIN', 5, 10), ip: rateLimit('JOIN_IP', 50, 100) },
+  create_room: { user: rateLimit('CREATE_ROOM', 3, 5), ip: rateLimit('CREATE_ROOM_IP', 30, 50) },
+  typing: { user: rateLimit('TYPING', 5, 30) }
+};
+// Proxies in front of the server (Render has one) whose X-Forwarded-For we trust
+const TRUST_PROXY = Number(process.env.TRUST_PROXY ?? 1);
+// Bearer token for GET /metrics, which is switched off without one
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+// Upload limits on real file bytes, configurable in MB
+const MAX_FILE_SIZE = (Number(process.env.MAX_FILE_SIZE_MB) || 5) * 1024 * 1024; // 5 MB
+const MAX_FILE_STORAGE = (Number(process.env.MAX_FILE_STORAGE_MB) || 200) * 1024 * 1024; // all files together
+const UPLOAD_CHUNK_SIZE = 256 * 1024; // 256 KB per chunk for resumable uploads
+const RESUME_GRACE = 60 * 1000; // 1 minute to reconnect and keep identity/room
+const PRESENCE_INTERVAL = 10 * 1000; // how often each instance re-announces its users
+const PRESENCE_TIMEOUT = 3 * PRESENCE_INTERVAL; // forget instances that stopped announcing
+const EVENTS_CHANNEL = 'oneminute:events';
+const MAX_MUTE_MINUTES = 24 * 60; // longest mute a host can hand out
+const REPLY_EXCERPT_LENGTH = 120; // characters of the original quoted in a reply
+const MAX_MENTIONS = 20; // user IDs an encrypted message may name as mentioned
+const DIRECT_SWEEP_INTERVAL = 60 * 1000; // how often expired direct threads are dropped
+const MAX_INVITES = 20; // open invites a room keeps; older ones are dropped
+const MAX_SEALED_KEY_LENGTH = 200; // an encrypted room key is well under this
+const CHANNEL_SWEEP_INTERVAL = 30 * 1000; // how often empty public channels are checked
+const DIRECTORY_UPDATE_DELAY = 1000; // directory changes sent to watchers at most this often
+const MAX_CHANNEL_NAME_LENGTH = 40;
+const MAX_TOPIC_LENGTH = 200;
+const MAX_ROOM_MEMBERS = 500; // largest member cap a room can have
+const ACTIVITY_WINDOW = 60; // minutes of message and upload counts /stats reports
+// Ciphertext of the longest message: at most 3 UTF-8 bytes a character plus
+// the IV and auth tag, base64 encoded
+const MAX_ENCRYPTED_LENGTH = Math.ceil((MAX_MESSAGE_LENGTH * 3 + 28) / 3) * 4;
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]; // seconds
+// Commands only the host of a private room may send
+const HOST_ACTIONS = ['kick_user', 'mute_user', 'ban_user', 'lock_room', 'transfer_host', 'rotate_key', 'create_invite'];
+const INSTANCE_ID = crypto.randomUUID();
+
+// Rooms, messages, files and visit counters (STORAGE=memory|disk)
+const storage = createStorage();
+
+// Room traffic shared between server instances (PUBSUB=memory|redis)
+const pubsub = createPubSub();
+
+// Runtime-only state
+const members = new Map(); // roomId -> Set of sockets in the room
+const rateLimiter = createRateLimiter(RATE_LIMITS); // per user ID and client IP
+const sessions = new Map(); // resumeToken -> { user, ws, expiryTimer }
+const uploads = new Map(); // uploadId -> chunked upload session (see POST /uploads)
+const burningFiles = new Set(); // burn-after-download files with a download in progress
+let reservedUploadBytes = 0; // held for /upload bodies still arriving
+const remoteInstances = new Map(); // instanceId -> { rooms: Map(roomId -> users), seenAt }
+const emptyChannels = new Map(); // public channel roomId -> when it was first seen empty
+const activity = new Map(); // minute start (epoch ms) -> { messages, uploads }, for /stats
+
+let directoryTimer = null; // pending channel_list update for directory watchers
 
 let fileIdCounter = 0;
 
-const rooms = new Map();
+// Prometheus metrics for GET /metrics
+const metrics = createMetrics();
+const messagesSent = metrics.counter('oneminute_messages_sent_total', 'Messages accepted from clients, by room type');
+const messageDelivery = metrics.histogram(
+  'oneminute_message_delivery_seconds',
+  'Time from a message being accepted, on any instance, to its delivery to local members',
+  LATENCY_BUCKETS
+);
+const broadcastDuration = metrics.histogram(
+  'oneminute_broadcast_duration_seconds',
+  'Time spent sending one frame to the local members of a room',
+  LATENCY_BUCKETS
+);
+const broadcastRecipients = metrics.histogram(
+  'oneminute_broadcast_recipients',
+  'Local sockets a room broadcast was sent to',
+  [0, 1, 2, 5, 10, 25, 50, 100, 250, 500]
+);
+const uploadSize = metrics.histogram(
+  'oneminute_upload_bytes',
+  'Size of stored uploads',
+  [1024, 10240, 102400, 524288, 1048576, 2097152, 5242880, 10485760]
+);
+const uploadsRefused = metrics.counter('oneminute_uploads_refused_total', 'Uploads refused for their size or lack of space, by reason');
+const downloads = metrics.counter('oneminute_file_downloads_total', 'File download requests, by result');
+const downloadBytes = metrics.counter('oneminute_file_download_bytes_total', 'Bytes of files served');
+const rateLimited = metrics.counter('oneminute_rate_limited_total', 'Requests refused by a rate limit, by action');
+const rejectedFrames = metrics.counter('oneminute_rejected_frames_total', 'WebSocket frames refused, by reason');
+const connectionsOpened = metrics.counter('oneminute_connections_opened_total', 'WebSocket connections, by whether they resumed a session');
+const connectionsClosed = metrics.counter('oneminute_connections_closed_total', 'WebSocket connections closed');
+const connectionDuration = metrics.histogram(
+  'oneminute_connection_duration_seconds',
+  'How long WebSocket connections stayed open',
+  [1, 10, 60, 300, 900, 3600, 14400, 86400]
+);
+const sessionsExpired = metrics.counter('oneminute_sessions_expired_total', 'Sessions whose client did not reconnect in time');
+
+metrics.gauge('oneminute_connections', 'Open WebSocket connections', () => wss.clients.size);
+metrics.gauge('oneminute_sessions', 'Sessions, including those waiting for their client to reconnect', () => sessions.size);
+metrics.gauge('oneminute_rooms', 'Rooms by type, direct message threads included', () => {
+  const counts = { global: 0, private: 0, channel: 0, direct: 0 };
+  storage.listRooms().forEach(room => {
+    counts[roomType(room)]++;
+  });
+  return Object.entries(counts).map(([type, count]) => [{ type }, count]);
+});
+metrics.gauge('oneminute_stored_messages', 'Messages not yet expired', () => storage.messageCount());
+metrics.gauge('oneminute_stored_file_bytes', 'Bytes held by files and reserved by unfinished uploads', () => getStoredFileBytes());
+metrics.gauge('oneminute_uptime_seconds', 'Seconds since the server started', () => Math.floor(process.uptime()));
 
-// Global room with messages array
-rooms.set('global', {
+// Global room, keeping its sequence numbers across restarts on disk storage
+storage.saveRoom({
+  ...storage.getRoom('global'),
   id: 'global',
   isPrivate: false,
-  members: new Set(),
-  messages: []
+  seq: storage.getRoom('global')?.seq || 0,
+  ttl: MESSAGE_TTL
 });
 
-// Visit tracking storage
-const visits = {
-  daily: new Map(),
-  monthly: new Map()
-};
+// Private rooms restored from disk are dropped if nobody comes back to them
+setTimeout(() => {
+  storage.listRooms().forEach(room => deleteRoomIfEmpty(room.id));
+}, RESUME_GRACE).unref();
+
+// Sockets currently in a room
+function getMembers(roomId) {
+  if (!members.has(roomId)) {
+    members.set(roomId, new Set());
+  }
+  return members.get(roomId);
+}
+
+// Delete a private room once its last member on any instance is gone
+function deleteRoomIfEmpty(roomId) {
+  const room = storage.getRoom(roomId);
+  if (room && room.isPrivate && getRoomUsers(roomId).length === 0) {
+    publishEvent({ type: 'room_deleted', roomId });
+  }
+}
 
 // ✅ NEW: System message helper
 function systemMessage(roomId, text) {
@@ -53,25 +202,30 @@ function systemMessage(roomId, text) {
     isSystem: true
   };
 
-  const room = rooms.get(roomId);
-  if (!room) return;
+  postMessage(roomId, msg);
+}
 
-  room.messages.push(msg);
-  broadcastToRoom(roomId, { type: 'new_message', message: msg });
+// Hand a message to every instance, which stores it and delivers it to its
+// own members. Sequence numbers are assigned on arrival: every instance sees
+// messages in the same order, so they all number them the same way.
+function postMessage(roomId, message) {
+  if (!storage.hasRoom(roomId)) return;
+  publishEvent({ type: 'message', roomId, message });
 }
 
 function joinRoom(ws, roomId) {
   leaveRoom(ws);
   ws.user.currentRoom = roomId;
 
-  const room = rooms.get(roomId);
-  if (!room) return;
+  if (!storage.hasRoom(roomId)) return;
+
+  getMembers(roomId).add(ws);
 
-  room.members.add(ws);
+  // Snapshot first, so everything broadcast below follows its sequence number
+  sendInit(ws, roomId);
 
   // Broadcast user count and list
-  broadcastUserCount(roomId);
-  broadcastUserList(roomId);
+  announcePresence(roomId);
 
   // Get username for this room
   const username = roomId === 'global' 
@@ -80,34 +234,662 @@ function joinRoom(ws, roomId) {
 
   // ✅ NEW: Send system message for join
   systemMessage(roomId, `${username} joined the room`);
+}
+
+// The quote stored with a reply. It is copied rather than looked up later so
+// it survives as long as the reply does. Ciphertext can't be shortened here,
+// so encrypted rooms quote the whole text and the client trims it.
+function quoteMessage(roomId, messageId) {
+  const original = storage.getMessages(roomId).find(msg => msg.id === messageId);
+  if (!original || original.isSystem) {
+    // Expired (or never existed); the id is only echoed back, so cap it
+    return { id: messageId.slice(0, 100), expired: true };
+  }
+
+  const text = original.encrypted || original.text.length <= REPLY_EXCERPT_LENGTH
+    ? original.text
+    : `${original.text.slice(0, REPLY_EXCERPT_LENGTH).trimEnd()}…`;
+
+  return {
+    id: original.id,
+    sender: original.sender,
+    senderId: original.senderId,
+    text,
+    hasFile: Boolean(original.fileUrl),
+    ...(original.encrypted && { encrypted: true })
+  };
+}
+
+// Users a message mentions, as { userId, name }, resolved now so later
+// renames don't matter. The server can't read encrypted messages, so there
+// the sender's client names the user IDs and we only keep current members.
+function findMentions(ws, room, text, mentionedIds) {
+  const users = getRoomUsers(room.id).filter(user => user.id !== ws.user.id);
+
+  if (!room.encrypted) {
+    return resolveMentions(text, users);
+  }
+
+  const ids = new Set((mentionedIds || []).slice(0, MAX_MENTIONS));
+  const mentions = new Map();
+  users.forEach(user => {
+    if (ids.has(user.id) && !mentions.has(user.id)) {
+      mentions.set(user.id, { userId: user.id, name: user.name });
+    }
+  });
+  return Array.from(mentions.values());
+}
+
+// Direct messages between two users are kept as a hidden room of their own,
+// so they expire like messages in the room they were sent from. Each room
+// the pair shares gets its own thread, so ciphertext under one room's key
+// never mixes with another room's messages. Its ID is the same whichever of
+// the two asks for it.
+function directThreadId(roomId, userId, otherUserId) {
+  return `dm:${roomId}:${[userId, otherUserId].sort().join(':')}`;
+}
+
+// Deliver a direct message to the sockets of its sender and recipient on
+// this instance, if they are still in the room it was sent from
+function sendDirectMessage(roomId, message, ttl) {
+  const participants = [message.senderId, message.recipientId];
+  const payload = JSON.stringify({
+    type: 'direct_message',
+    message: { ...message, remainingTime: ttl - (Date.now() - message.timestamp) }
+  });
+
+  wss.clients.forEach(client => {
+    if (client.readyState === 1 && participants.includes(client.user?.id) && client.user.currentRoom === roomId) {
+      client.send(payload);
+    }
+  });
+}
+
+// Threads whose messages have all expired. Every instance expires the same
+// messages, so each drops its own copy without telling the others.
+setInterval(() => {
+  storage.listRooms().forEach(room => {
+    if (room.direct && storage.getMessages(room.id).length === 0) {
+      storage.deleteRoom(room.id);
+    }
+  });
+}, DIRECT_SWEEP_INTERVAL).unref();
+
+// Public channels, busiest first, with live member counts from every instance
+function listChannels() {
+  return storage.listRooms()
+    .filter(room => room.channel)
+    .map(room => ({
+      id: room.id,
+      name: room.channel.name,
+      topic: room.channel.topic,
+      memberCount: getRoomUsers(room.id).length,
+      maxMembers: room.maxMembers ?? null,
+      createdAt: room.channel.createdAt
+    }))
+    .sort((a, b) => b.memberCount - a.memberCount || a.name.localeCompare(b.name));
+}
+
+// Send the directory to sockets here that have it open. Every join and leave
+// changes a count, so changes are batched.
+function scheduleDirectoryUpdate(roomId) {
+  if (directoryTimer || (roomId && !storage.getRoom(roomId)?.channel)) return;
+
+  directoryTimer = setTimeout(() => {
+    directoryTimer = null;
+    const watchers = Array.from(wss.clients).filter(client => client.watchingChannels && client.readyState === 1);
+    if (watchers.length === 0) return;
+
+    const payload = JSON.stringify({ type: 'channel_list', channels: listChannels() });
+    watchers.forEach(client => client.send(payload));
+  }, DIRECTORY_UPDATE_DELAY);
+}
+
+// Public channels go once they have been empty for CHANNEL_GRACE, so a
+// dropped connection or a quiet spell doesn't lose them. Whichever instance
+// notices first deletes the channel everywhere.
+setInterval(() => {
+  const now = Date.now();
+  storage.listRooms().forEach(room => {
+    if (!room.channel) return;
+
+    if (getRoomUsers(room.id).length > 0) {
+      emptyChannels.delete(room.id);
+    } else if (!emptyChannels.has(room.id)) {
+      emptyChannels.set(room.id, now);
+    } else if (now - emptyChannels.get(room.id) >= CHANNEL_GRACE) {
+      publishEvent({ type: 'room_deleted', roomId: room.id });
+    }
+  });
+}, CHANNEL_SWEEP_INTERVAL).unref();
+
+// Send the current room snapshot to a single socket
+function sendInit(ws, roomId) {
+  const room = storage.getRoom(roomId);
+  if (!room) return;
+
+  const username = roomId === 'global'
+    ? ws.user.anonName
+    : ws.user.roomNames.get(roomId) || 'Guest';
 
   ws.send(JSON.stringify({
     type: 'init',
     roomId,
     messages: getActiveMessages(roomId),
-    username
+    seq: room.seq,
+    ttl: room.ttl,
+    username,
+    encrypted: Boolean(room.encrypted),
+    ...describeRoom(room)
   }));
 }
 
-function leaveRoom(ws) {
-  const room = rooms.get(ws.user.currentRoom);
+// Send a client every message after the last sequence number it saw. If some
+// of those have already expired, say so and send what is still available.
+function sendReplay(ws, roomId, afterSeq) {
+  const room = storage.getRoom(roomId);
   if (!room) return;
 
+  const messages = getActiveMessages(roomId).filter(msg => msg.seq > afterSeq);
+  // Lost only if something after afterSeq expired. Gaps left by unsent
+  // messages are not lost history.
+  const historyLost = afterSeq > room.seq || afterSeq < (room.expiredSeq || 0);
+
+  ws.send(JSON.stringify({
+    type: 'replay',
+    roomId,
+    messages,
+    seq: room.seq,
+    historyLost
+  }));
+}
+
+// Leave the current room. Users removed by the host leave without the usual
+// system message, since the host action announces itself.
+function leaveRoom(ws, announce = true) {
+  const roomId = ws.user.currentRoom;
+  const roomMembers = getMembers(roomId);
+  if (!roomMembers.has(ws)) return;
+
   // ✅ NEW: Get username before leaving
-  const username = ws.user.currentRoom === 'global'
+  const username = roomId === 'global'
     ? ws.user.anonName
-    : ws.user.roomNames.get(ws.user.currentRoom) || 'Guest';
+    : ws.user.roomNames.get(roomId) || 'Guest';
 
-  room.members.delete(ws);
+  roomMembers.delete(ws);
   
   // ✅ NEW: Send system message for leave
-  if (room.members.size > 0) { // Only if someone is left to see it
-    systemMessage(room.id, `${username} left the room`);
+  if (announce && getRoomUsers(roomId).length > 0) { // Only if someone is left to see it
+    systemMessage(roomId, `${username} left the room`);
   }
 
   // Broadcast updated counts and list
-  broadcastUserCount(room.id);
-  broadcastUserList(room.id);
+  announcePresence(roomId);
+  handOffHostIfGone(roomId, ws.user.id);
+}
+
+// Current room settings for clients (never includes the key hash)
+function describeRoom(room) {
+  return {
+    hostId: room.hostId || null,
+    locked: Boolean(room.locked),
+    maxMembers: room.maxMembers ?? null,
+    knock: Boolean(room.knock),
+    ...(room.knock && {
+      knocks: Object.entries(room.knocks || {}).map(([userId, knock]) => ({ userId, ...knock }))
+    }),
+    ...(room.channel && { channel: { name: room.channel.name, topic: room.channel.topic } })
+  };
+}
+
+// Change room settings on every instance
+function updateRoom(roomId, changes) {
+  publishEvent({ type: 'room_updated', roomId, changes });
+}
+
+// Pass the host role on when the host leaves, to whoever is listed first
+function handOffHostIfGone(roomId, userId) {
+  const room = storage.getRoom(roomId);
+  if (!room || room.hostId !== userId) return;
+
+  const next = getRoomUsers(roomId).find(user => user.id !== userId);
+  if (!next) return;
+
+  updateRoom(roomId, { hostId: next.id });
+  systemMessage(roomId, `${next.name} is now the host`);
+}
+
+// Send a user back to the global room, on whichever instance they are connected
+function removeUser(roomId, userId, banned) {
+  publishEvent({ type: 'user_removed', roomId, userId, banned });
+}
+
+// Member caps a room can be created with; null means no cap
+function isValidMaxMembers(maxMembers) {
+  return maxMembers === null ||
+    (Number.isInteger(maxMembers) && maxMembers >= 2 && maxMembers <= MAX_ROOM_MEMBERS);
+}
+
+// Whether the user may join the room under this name, after telling them why
+// not. Checked again when someone waiting in the lobby is let in.
+function canJoin(ws, room, username) {
+  if (room.bans?.includes(ws.user.id)) {
+    sendError(ws, 'BANNED', 'You are banned from this room', { roomId: room.id });
+    return false;
+  }
+
+  if (room.locked) {
+    sendError(ws, 'ROOM_LOCKED', 'This room is locked', { roomId: room.id });
+    return false;
+  }
+
+  // Not counting ourselves, in case we are rejoining
+  const others = getRoomUsers(room.id).filter(user => user.id !== ws.user.id);
+  if (room.maxMembers && others.length >= room.maxMembers) {
+    sendError(ws, 'ROOM_FULL', 'This room is full', { roomId: room.id, maxMembers: room.maxMembers });
+    return false;
+  }
+
+  // Check for duplicate username, including users on other instances and in the lobby
+  const isDuplicate = getRoomUsers(room.id).some(user => user.name === username) ||
+    Object.entries(room.knocks || {}).some(([userId, knock]) => userId !== ws.user.id && knock.name === username);
+
+  if (isDuplicate) {
+    sendError(ws, 'USERNAME_TAKEN', `Username "${username}" is already taken in this room`, {
+      roomId: room.id,
+      username
+    });
+    return false;
+  }
+
+  return true;
+}
+
+// Wait in the lobby of a room that makes joiners knock. Members see the
+// request in the room's `knocks` and answer it with answer_knock.
+function requestKnock(ws, roomId, username) {
+  withdrawKnock(ws.user);
+
+  const room = storage.getRoom(roomId);
+  ws.user.knocking = { roomId, username };
+  updateRoom(roomId, {
+    knocks: { ...room.knocks, [ws.user.id]: { name: username, requestedAt: Date.now() } }
+  });
+  ws.send(JSON.stringify({ type: 'knock_pending', roomId }));
+}
+
+// Leave whichever lobby the user is waiting in
+function withdrawKnock(user) {
+  const knocking = user.knocking;
+  if (!knocking) return;
+
+  user.knocking = null;
+  const room = storage.getRoom(knocking.roomId);
+  if (room?.knocks && Object.hasOwn(room.knocks, user.id)) {
+    const knocks = { ...room.knocks };
+    delete knocks[user.id];
+    updateRoom(room.id, { knocks });
+  }
+}
+
+// Errors carry a stable `code` for clients to act on, a readable `message`
+// for anything that doesn't know the code, and optional `details`
+function sendError(ws, code, message, details) {
+  ws.send(JSON.stringify({ type: 'error', code, message, ...(details && { details }) }));
+}
+
+// Kick, mute, ban, lock, hand over the host role, rotate the room key or
+// issue an invite
+function handleHostAction(ws, parsed) {
+  const roomId = ws.user.currentRoom;
+  const room = storage.getRoom(roomId);
+
+  if (!room || !(room.isPrivate || room.channel) || room.hostId !== ws.user.id) {
+    sendError(ws, 'NOT_HOST', 'Only the room host can do that');
+    return;
+  }
+
+  // Public channels have no key to rotate or hand out
+  if ((parsed.type === 'rotate_key' || parsed.type === 'create_invite') && !room.encrypted) {
+    sendError(ws, 'INVALID_MESSAGE', 'Invalid message format', { reason: `${parsed.type} needs an encrypted room` });
+    return;
+  }
+
+  const hostName = ws.user.roomNames.get(roomId) || 'Host';
+
+  if (parsed.type === 'lock_room') {
+    const locked = parsed.locked === true;
+    updateRoom(roomId, { locked });
+    systemMessage(roomId, `${hostName} ${locked ? 'locked' : 'unlocked'} the room`);
+    return;
+  }
+
+  if (parsed.type === 'rotate_key') {
+    // The new key travels sealed with the old one, so only members can open it
+    if (!isValidRoomAuth(parsed.roomAuth) ||
+        typeof parsed.sealedKey !== 'string' || parsed.sealedKey.length > MAX_SEALED_KEY_LENGTH) {
+      sendError(ws, 'INVALID_ROOM_KEY', 'Invalid room key');
+      return;
+    }
+
+    // Open invites carry the old key, so they stop working too
+    updateRoom(roomId, { keyHash: hashRoomAuth(parsed.roomAuth), invites: {} });
+    publishEvent({
+      type: 'broadcast',
+      roomId,
+      data: { type: 'key_rotated', roomId, sealedKey: parsed.sealedKey }
+    });
+    systemMessage(roomId, `${hostName} rotated the room key`);
+    return;
+  }
+
+  if (parsed.type === 'create_invite') {
+    // The server never sees the key: the host sends it sealed with a secret
+    // that only travels in the invite link
+    const ttl = Number(parsed.ttl);
+    if (!INVITE_TTL_OPTIONS.includes(ttl)) {
+      sendError(ws, 'INVALID_TTL', 'Unsupported invite lifetime', { options: INVITE_TTL_OPTIONS });
+      return;
+    }
+
+    if (parsed.sealedKey.length > MAX_SEALED_KEY_LENGTH) {
+      sendError(ws, 'INVALID_MESSAGE', 'Invalid message format', { reason: 'create_invite.sealedKey is too long' });
+      return;
+    }
+
+    // Drop expired invites, and the oldest ones past the limit
+    const now = Date.now();
+    const invites = Object.fromEntries(
+      Object.entries(room.invites || {})
+        .filter(([, invite]) => invite.expiresAt > now)
+        .slice(-(MAX_INVITES - 1))
+    );
+    const token = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = now + ttl;
+    invites[token] = { sealedKey: parsed.sealedKey, singleUse: parsed.singleUse, expiresAt };
+
+    updateRoom(roomId, { invites });
+    ws.send(JSON.stringify({
+      type: 'invite_created',
+      roomId,
+      token,
+      singleUse: parsed.singleUse,
+      expiresAt
+    }));
+    return;
+  }
+
+  // Everything else acts on another user
+  const userId = typeof parsed.userId === 'string' ? parsed.userId : '';
+  const target = getRoomUsers(roomId).find(user => user.id === userId);
+
+  if (userId === ws.user.id) {
+    sendError(ws, 'CANNOT_TARGET_SELF', 'You cannot do that to yourself');
+    return;
+  }
+
+  // A ban can also target someone who already left
+  if (!target && !(parsed.type === 'ban_user' && userId)) {
+    sendError(ws, 'USER_NOT_IN_ROOM', 'That user is not in this room', { userId });
+    return;
+  }
+
+  const targetName = target ? target.name : 'A former member';
+
+  switch (parsed.type) {
+    case 'kick_user':
+      removeUser(roomId, userId, false);
+      systemMessage(roomId, `${hostName} removed ${targetName} from the room`);
+      break;
+
+    case 'ban_user':
+      if (!(room.bans || []).includes(userId)) {
+        updateRoom(roomId, { bans: [...(room.bans || []), userId] });
+      }
+      if (target) {
+        removeUser(roomId, userId, true);
+      }
+      systemMessage(roomId, `${hostName} banned ${targetName}`);
+      break;
+
+    case 'mute_user': {
+      const minutes = Number(parsed.minutes);
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_MUTE_MINUTES) {
+        sendError(ws, 'INVALID_MUTE_DURATION', `Mute for 1 to ${MAX_MUTE_MINUTES} minutes`, {
+          maxMinutes: MAX_MUTE_MINUTES
+        });
+        return;
+      }
+
+      // Drop mutes that already ran out while we are at it
+      const now = Date.now();
+      const mutes = Object.fromEntries(
+        Object.entries(room.mutes || {}).filter(([, until]) => until > now)
+      );
+      mutes[userId] = now + minutes * 60 * 1000;
+
+      updateRoom(roomId, { mutes });
+      systemMessage(roomId, `${hostName} muted ${targetName} for ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`);
+      break;
+    }
+
+    case 'transfer_host':
+      updateRoom(roomId, { hostId: userId });
+      systemMessage(roomId, `${hostName} made ${targetName} the host`);
+      break;
+  }
+}
+
+// Hash the auth token a client derives from the room key. The server never
+// sees the key itself, so it cannot decrypt private room traffic.
+function hashRoomAuth(roomAuth) {
+  return crypto.createHash('sha256').update(String(roomAuth)).digest('hex');
+}
+
+function isValidRoomAuth(roomAuth) {
+  return typeof roomAuth === 'string' && /^[0-9a-f]{64}$/.test(roomAuth);
+}
+
+// Register a resumable session for a socket and return its token
+function createSession(ws) {
+  const resumeToken = crypto.randomBytes(24).toString('hex');
+  sessions.set(resumeToken, { user: ws.user, ws, expiryTimer: null });
+  ws.resumeToken = resumeToken;
+  return resumeToken;
+}
+
+// Take over a session from a previous socket. Returns false if the token
+// is unknown or its grace window has already run out.
+function resumeSession(ws, resumeToken) {
+  const session = resumeToken && sessions.get(resumeToken);
+  if (!session) return false;
+
+  sessions.delete(resumeToken);
+  clearTimeout(session.expiryTimer);
+
+  // The old socket may still look open if the client noticed the drop first
+  const oldWs = session.ws;
+  if (oldWs !== ws && oldWs.readyState <= 1) {
+    oldWs.replaced = true;
+    oldWs.terminate();
+  }
+  oldWs.replaced = true;
+
+  members.forEach(roomMembers => {
+    if (roomMembers.delete(oldWs)) {
+      roomMembers.add(ws);
+    }
+  });
+  if (storage.hasRoom(session.user.currentRoom)) {
+    getMembers(session.user.currentRoom).add(ws);
+  }
+
+  ws.user = session.user;
+  return true;
+}
+
+// Drop a session whose socket closed and never came back
+function expireSession(ws) {
+  sessions.delete(ws.resumeToken);
+  sessionsExpired.inc();
+
+  // ✅ IMPROVED: Clean up from ALL rooms and broadcast updates
+  members.forEach((roomMembers, roomId) => {
+    if (roomMembers.delete(ws)) {
+      announcePresence(roomId);
+      handOffHostIfGone(roomId, ws.user.id);
+    }
+  });
+
+  rateLimiter.forget('user', ws.user.id);
+  withdrawKnock(ws.user);
+
+  // Auto-destroy empty private rooms
+  deleteRoomIfEmpty(ws.user.currentRoom);
+}
+
+// A stored message in the room sent by this user, or null after telling them
+// why not. View-once messages are never stored, so they can't be changed.
+function findOwnMessage(ws, roomId, messageId) {
+  const message = storage.getMessages(roomId).find(msg => msg.id === messageId);
+
+  if (!message) {
+    sendError(ws, 'MESSAGE_NOT_FOUND', 'That message has expired', { messageId });
+    return null;
+  }
+  if (message.isSystem || message.senderId !== ws.user.id) {
+    sendError(ws, 'NOT_MESSAGE_OWNER', 'You can only change your own messages', { messageId });
+    return null;
+  }
+  return message;
+}
+
+// Mark a file uploaded to a room as belonging to the first message there that
+// links to it, and return its ID. Anyone can paste a file URL, so later
+// messages, and links to another room's files, get null.
+function claimFile(roomId, fileUrl, messageId) {
+  const fileId = fileUrl.startsWith('/files/') ? fileUrl.slice('/files/'.length) : null;
+  const file = fileId && storage.getFile(fileId);
+  if (!file || file.roomId !== roomId || file.messageId) return null;
+
+  storage.updateFile(fileId, { messageId });
+  return fileId;
+}
+
+// Delete the file a removed message claimed, if any
+function deleteLinkedFile(message) {
+  const file = message.fileId && storage.getFile(message.fileId);
+  if (file && file.messageId === message.id) {
+    storage.deleteFile(file.id);
+  }
+}
+
+// Delete a burn-after-download file and let its room know it is gone
+function burnFile(file) {
+  storage.deleteFile(file.id);
+
+  if (!file.roomId || !storage.hasRoom(file.roomId)) return;
+
+  // Every instance marks its copy of the message
+  publishEvent({
+    type: 'file_consumed',
+    roomId: file.roomId,
+    fileUrl: `/files/${file.id}`
+  });
+}
+
+// Store an uploaded file and return what the client needs to link to it
+function storeFile({ data, mimeType, fileName, roomId, burnAfterDownload }) {
+  // Files live as long as messages in the room they are shared in
+  const room = storage.getRoom(roomId);
+  const ttl = room?.ttl || MESSAGE_TTL;
+
+  const fileId = generateFileId();
+  uploadSize.observe(data.length);
+  recordActivity('uploads');
+  storage.putFile({
+    id: fileId,
+    data,
+    mimeType: /^[\w.+-]+\/[\w.+-]+$/.test(mimeType) ? mimeType : 'application/octet-stream',
+    // Control characters would make the Content-Disposition header invalid
+    fileName: String(fileName).replace(/[\x00-\x1f\x7f]/g, '').slice(0, 255) || 'file',
+    timestamp: Date.now(),
+    ttl,
+    roomId: room ? room.id : null,
+    burnAfterDownload
+  });
+
+  return {
+    fileUrl: `/files/${fileId}`,
+    fileId,
+    expiresIn: ttl
+  };
+}
+
+// Total bytes held by uploaded files, plus the full declared size of every
+// unfinished upload, so uploads running side by side can't add up to more
+// than MAX_FILE_STORAGE between them
+function getStoredFileBytes() {
+  let total = storage.fileBytes() + reservedUploadBytes;
+  uploads.forEach(upload => {
+    total += upload.size;
+  });
+  return total;
+}
+
+// Public view of a chunked upload session
+function describeUpload(upload) {
+  return {
+    uploadId: upload.id,
+    chunkSize: upload.chunkSize,
+    totalChunks: upload.totalChunks,
+    received: Array.from(upload.chunks.keys()).sort((a, b) => a - b),
+    expiresIn: upload.ttl - (Date.now() - upload.timestamp)
+  };
+}
+
+// Collect a request body up to `limit` bytes, answering 413 past that
+// unless `onTooLarge` answers instead
+function readBody(req, res, limit, onBody, onTooLarge = () => sendFileTooLarge(res)) {
+  const chunks = [];
+  let received = 0;
+  let rejected = false;
+
+  req.on('data', (chunk) => {
+    if (rejected) return;
+
+    received += chunk.length;
+    if (received > limit) {
+      rejected = true;
+      onTooLarge();
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+
+  req.on('end', () => {
+    if (!rejected) onBody(Buffer.concat(chunks, received));
+  });
+}
+
+function sendFileTooLarge(res) {
+  uploadsRefused.inc({ reason: 'too_large' });
+  res.writeHead(413, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    error: `File too large. Max size is ${MAX_FILE_SIZE / (1024 * 1024)} MB.`
+  }));
+}
+
+function sendWrongChunkSize(res, index, expected) {
+  res.writeHead(400, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: `Chunk ${index} must be ${expected} bytes` }));
+}
+
+function sendStorageFull(res) {
+  uploadsRefused.inc({ reason: 'storage_full' });
+  res.writeHead(507, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Server storage is full. Please try again later.' }));
 }
 
 // Generate unique file ID
@@ -117,65 +899,151 @@ function generateFileId() {
 
 // Get active messages from a room
 function getActiveMessages(roomId) {
-  const room = rooms.get(roomId);
+  const room = storage.getRoom(roomId);
   if (!room) return [];
 
+  // The storage backend only returns messages that have not expired
   const now = Date.now();
-  return room.messages
-    .filter(msg => now - msg.timestamp <= MESSAGE_TTL)
+  return storage.getMessages(roomId)
     .map(msg => ({
       ...msg,
-      remainingTime: MESSAGE_TTL - (now - msg.timestamp)
+      remainingTime: room.ttl - (now - msg.timestamp)
     }));
 }
 
-// Check rate limit for a socket or IP
-function checkRateLimit(identifier, window = RATE_LIMIT_WINDOW) {
-  const now = Date.now();
-  const lastTime = rateLimits.get(identifier);
-  
-  if (lastTime && now - lastTime < window) {
-    return false;
+// Rooms people chat in, leaving out direct message threads
+function countRooms() {
+  return storage.listRooms().filter(room => !room.direct).length;
+}
+
+// Count a message or upload towards the last hour reported by /stats
+function recordActivity(kind) {
+  const minute = Math.floor(Date.now() / 60000) * 60000;
+  if (!activity.has(minute)) {
+    activity.set(minute, { messages: 0, uploads: 0 });
+    // Minutes fall out of the window as new ones start
+    activity.forEach((_, start) => {
+      if (start <= minute - ACTIVITY_WINDOW * 60000) activity.delete(start);
+    });
   }
-  
-  rateLimits.set(identifier, now);
-  return true;
+  activity.get(minute)[kind]++;
 }
 
-// Clean up expired messages and files
-setInterval(() => {
-  const now = Date.now();
-  let messagesDeleted = 0;
-  let filesDeleted = 0;
-
-  // Clean up messages in all rooms
-  rooms.forEach(room => {
-    const beforeCount = room.messages.length;
-    room.messages = room.messages.filter(
-      msg => now - msg.timestamp <= MESSAGE_TTL
-    );
-    messagesDeleted += beforeCount - room.messages.length;
+// The last hour a minute at a time, oldest first and the current minute last
+function describeActivity() {
+  const current = Math.floor(Date.now() / 60000) * 60000;
+  return Array.from({ length: ACTIVITY_WINDOW }, (_, i) => {
+    const start = current - (ACTIVITY_WINDOW - 1 - i) * 60000;
+    return { start, ...(activity.get(start) || { messages: 0, uploads: 0 }) };
   });
+}
 
-  // Clean up files
-  for (const [id, file] of files.entries()) {
-    if (now - file.timestamp > MESSAGE_TTL) {
-      files.delete(id);
-      filesDeleted++;
-    }
+// Rooms with someone in them and how many people, public (the global room
+// and channels) and private. Direct threads aren't rooms anyone is in.
+function describeActiveRooms() {
+  const breakdown = { public: { rooms: 0, members: 0 }, private: { rooms: 0, members: 0 } };
+  storage.listRooms().forEach(room => {
+    if (room.direct) return;
+
+    const memberCount = getRoomUsers(room.id).length;
+    if (memberCount === 0) return;
+
+    const entry = room.isPrivate ? breakdown.private : breakdown.public;
+    entry.rooms++;
+    entry.members += memberCount;
+  });
+  return breakdown;
+}
+
+// The kind of room, as metrics label it
+function roomType(room) {
+  if (room.id === 'global') return 'global';
+  if (room.direct) return 'direct';
+  return room.channel ? 'channel' : 'private';
+}
+
+// Check an action against the rate limits for each key (user ID, client IP).
+// Returns 0 if allowed, otherwise the milliseconds until it would be.
+function checkRateLimit(action, keys) {
+  const retryAfter = rateLimiter.take(action, keys);
+  if (retryAfter > 0) {
+    rateLimited.inc({ action });
   }
+  return retryAfter;
+}
 
-  if (messagesDeleted > 0 || filesDeleted > 0) {
-    console.log(`Cleanup: removed ${messagesDeleted} messages, ${filesDeleted} files`);
+setInterval(() => rateLimiter.sweep(), 60 * 1000).unref();
+
+// The client's address. Each trusted proxy appends the address it saw to
+// X-Forwarded-For; anything left of those came from the client and may be forged.
+function getClientIp(req) {
+  const forwarded = String(req.headers['x-forwarded-for'] || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+  if (TRUST_PROXY > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - TRUST_PROXY)];
   }
-}, 30000);
+  return req.socket.remoteAddress;
+}
+
+// Tell a socket it is going too fast and when it may try again
+function sendRateLimited(ws, action, retryAfter) {
+  sendError(ws, 'RATE_LIMITED', `Slow down. Try again in ${Math.ceil(retryAfter / 1000)} s.`, {
+    action,
+    retryAfter
+  });
+}
+
+// Ciphertext is longer than the text it encrypts, so it gets a larger limit
+const isTooLong = (text, encrypted) =>
+  text.length > (encrypted ? MAX_ENCRYPTED_LENGTH : MAX_MESSAGE_LENGTH);
+
+// Tell a muted user how long their mute has left. True if they are muted.
+function refuseIfMuted(ws, room) {
+  const mutedFor = (room.mutes?.[ws.user.id] || 0) - Date.now();
+  if (mutedFor <= 0) return false;
+
+  const minutes = Math.ceil(mutedFor / 60000);
+  sendError(ws, 'MUTED', `The host muted you for ${minutes} more ${minutes === 1 ? 'minute' : 'minutes'}`, {
+    until: room.mutes[ws.user.id]
+  });
+  return true;
+}
+
+function sendMessageTooLong(ws) {
+  sendError(ws, 'MESSAGE_TOO_LONG', `Messages can be up to ${MAX_MESSAGE_LENGTH} characters`, {
+    maxLength: MAX_MESSAGE_LENGTH
+  });
+}
+
+// Hashing first makes the comparison take the same time however much of the
+// token matches
+function isMetricsRequestAuthorized(req) {
+  const header = String(req.headers.authorization || '');
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(METRICS_TOKEN));
+}
+
+function sendTooManyUploads(res, retryAfter) {
+  res.writeHead(429, {
+    'Content-Type': 'application/json',
+    'Retry-After': String(Math.ceil(retryAfter / 1000))
+  });
+  res.end(JSON.stringify({
+    error: 'Too many uploads. Please wait a few seconds.',
+    retryAfter
+  }));
+}
 
 // Create HTTP server for file uploads and health checks
 const httpServer = http.createServer((req, res) => {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-File-Name, X-Room-Id, X-Burn-After-Download');
 
   if (req.method === 'OPTIONS') {
     res.writeHead(200);
@@ -185,33 +1053,20 @@ const httpServer = http.createServer((req, res) => {
 
   // Stats endpoint
   if (req.url === '/stats' && req.method === 'GET') {
-    let totalMessages = 0;
-    rooms.forEach(room => {
-      totalMessages += room.messages.length;
-    });
-
-    const dailyStats = {};
-    visits.daily.forEach((count, date) => {
-      dailyStats[date] = count;
-    });
-
-    const monthlyStats = {};
-    visits.monthly.forEach((count, month) => {
-      monthlyStats[month] = count;
-    });
-
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
       status: 'ok',
       visits: {
-        daily: dailyStats,
-        monthly: monthlyStats
+        daily: storage.getCounters('visits.daily'),
+        monthly: storage.getCounters('visits.monthly')
       },
       current: {
-        messages: totalMessages,
-        rooms: rooms.size,
+        messages: storage.messageCount(),
+        rooms: countRooms(),
         connections: wss.clients.size
       },
+      activeRooms: describeActiveRooms(),
+      lastHour: describeActivity(),
       uptime: Math.floor(process.uptime())
     }));
     return;
@@ -219,51 +1074,104 @@ const httpServer = http.createServer((req, res) => {
 
   // Health check endpoint
   if (req.url === '/health' && req.method === 'GET') {
-    let totalMessages = 0;
-    rooms.forEach(room => {
-      totalMessages += room.messages.length;
-    });
-
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ 
       status: 'ok', 
-      messages: totalMessages,
-      rooms: rooms.size,
+      messages: storage.messageCount(),
+      rooms: countRooms(),
       uptime: process.uptime()
     }));
     return;
   }
 
-  // File upload endpoint
+  // Prometheus metrics, for scrapers that send METRICS_TOKEN as a bearer token
+  if (req.url === '/metrics' && req.method === 'GET') {
+    if (!METRICS_TOKEN) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    if (!isMetricsRequestAuthorized(req)) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(metrics.render());
+    return;
+  }
+
+  // File upload endpoint. The body is the raw file; metadata travels in
+  // X-File-Name (URI-encoded), X-Room-Id and X-Burn-After-Download headers.
+  // JSON bodies with base64 `fileData` are still accepted from older clients.
   if (req.url === '/upload' && req.method === 'POST') {
     // ✅ NEW: Rate limit uploads by IP
-    const clientIp = req.socket.remoteAddress;
-    if (!checkRateLimit(clientIp, RATE_LIMIT_UPLOAD)) {
-      res.writeHead(429, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Too many uploads. Please wait a few seconds.' }));
+    const retryAfter = checkRateLimit('upload', { ip: getClientIp(req) });
+    if (retryAfter > 0) {
+      sendTooManyUploads(res, retryAfter);
       return;
     }
 
-    let body = Buffer.alloc(0);
-    let contentLength = parseInt(req.headers['content-length'] || '0');
-    
-    if (contentLength > MAX_FILE_SIZE) {
-      res.writeHead(413, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'File too large. Max size is 1 MB.' }));
+    const isJson = (req.headers['content-type'] || '').startsWith('application/json');
+    // Base64 inflates the legacy JSON body by about a third
+    const bodyLimit = isJson ? Math.ceil(MAX_FILE_SIZE * 4 / 3) + 4096 : MAX_FILE_SIZE;
+    const contentLength = parseInt(req.headers['content-length'] || '0');
+
+    if (contentLength > bodyLimit) {
+      sendFileTooLarge(res);
+      return;
+    }
+
+    // Without a length, room for the largest file allowed
+    const reserved = Math.min(contentLength || MAX_FILE_SIZE, MAX_FILE_SIZE);
+    if (getStoredFileBytes() + reserved > MAX_FILE_STORAGE) {
+      sendStorageFull(res);
       return;
     }
 
-    req.on('data', (chunk) => {
-      body = Buffer.concat([body, chunk]);
-      if (body.length > MAX_FILE_SIZE) {
-        res.writeHead(413, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'File too large. Max size is 1 MB.' }));
-        req.destroy();
+    reservedUploadBytes += reserved;
+    res.once('close', () => {
+      reservedUploadBytes -= reserved;
+    });
+
+    // Checked again against the real size, minus what this upload reserved
+    const saveFile = (file) => {
+      if (getStoredFileBytes() - reserved + file.data.length > MAX_FILE_STORAGE) {
+        sendStorageFull(res);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(storeFile(file)));
+    };
+
+    readBody(req, res, bodyLimit, (body) => {
+      if (!isJson) {
+        let fileName;
+        try {
+          fileName = decodeURIComponent(req.headers['x-file-name'] || '');
+        } catch {
+          fileName = '';
+        }
+
+        if (!fileName || body.length === 0) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing required fields' }));
+          return;
+        }
+
+        saveFile({
+          data: body,
+          mimeType: req.headers['content-type'] || 'application/octet-stream',
+          fileName,
+          roomId: req.headers['x-room-id'],
+          burnAfterDownload: req.headers['x-burn-after-download'] === '1'
+        });
         return;
       }
-    });
 
-    req.on('end', () => {
       try {
         const data = JSON.parse(body.toString());
         
@@ -273,30 +1181,19 @@ const httpServer = http.createServer((req, res) => {
           return;
         }
 
-        // Check base64 size
-        const base64Size = Buffer.byteLength(data.fileData, 'base64');
-        if (base64Size > MAX_FILE_SIZE) {
-          res.writeHead(413, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'File too large. Max size is 1 MB.' }));
+        const fileData = Buffer.from(data.fileData, 'base64');
+        if (fileData.length > MAX_FILE_SIZE) {
+          sendFileTooLarge(res);
           return;
         }
 
-        const fileId = generateFileId();
-        files.set(fileId, {
-          id: fileId,
-          data: data.fileData,
+        saveFile({
+          data: fileData,
           mimeType: data.mimeType,
           fileName: data.fileName,
-          timestamp: Date.now()
+          roomId: data.roomId,
+          burnAfterDownload: data.burnAfterDownload === true
         });
-
-        const fileUrl = `/files/${fileId}`;
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ 
-          fileUrl, 
-          fileId,
-          expiresIn: MESSAGE_TTL 
-        }));
       } catch (error) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Invalid JSON' }));
@@ -305,135 +1202,658 @@ const httpServer = http.createServer((req, res) => {
     return;
   }
 
-  // File download endpoint
-  if (req.url.startsWith('/files/') && req.method === 'GET') {
-    const fileId = req.url.split('/')[2];
-    const file = files.get(fileId);
+  // Resumable uploads: create a session, PUT numbered chunks, check which
+  // chunks arrived with GET, then POST /complete to turn it into a file
+  if (req.url === '/uploads' && req.method === 'POST') {
+    const retryAfter = checkRateLimit('upload', { ip: getClientIp(req) });
+    if (retryAfter > 0) {
+      sendTooManyUploads(res, retryAfter);
+      return;
+    }
+
+    readBody(req, res, 4096, (body) => {
+      let data;
+      try {
+        data = JSON.parse(body.toString());
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+
+      const size = Number(data.size);
+      if (!data.fileName || !Number.isInteger(size) || size <= 0) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Missing required fields' }));
+        return;
+      }
+
+      if (size > MAX_FILE_SIZE) {
+        sendFileTooLarge(res);
+        return;
+      }
+
+      if (getStoredFileBytes() + size > MAX_FILE_STORAGE) {
+        sendStorageFull(res);
+        return;
+      }
+
+      const room = storage.getRoom(data.roomId);
+      const upload = {
+        id: crypto.randomUUID(),
+        fileName: String(data.fileName),
+        mimeType: String(data.mimeType || 'application/octet-stream'),
+        roomId: room ? room.id : null,
+        burnAfterDownload: data.burnAfterDownload === true,
+        size,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        totalChunks: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+        chunks: new Map(), // index -> Buffer
+        timestamp: Date.now(),
+        ttl: room?.ttl || MESSAGE_TTL
+      };
+      uploads.set(upload.id, upload);
+
+      // Unfinished sessions expire like the files they would become
+      upload.expiryTimer = setTimeout(() => uploads.delete(upload.id), upload.ttl);
+      upload.expiryTimer.unref();
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(describeUpload(upload)));
+    });
+    return;
+  }
+
+  const uploadMatch = req.url.match(/^\/uploads\/([\w-]+)(?:\/chunks\/(\d+)|\/(complete))?$/);
+  if (uploadMatch) {
+    const [, uploadId, chunkIndex, complete] = uploadMatch;
+    const upload = uploads.get(uploadId);
+
+    if (!upload) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Upload not found or expired' }));
+      return;
+    }
+
+    // Which chunks the server already has
+    if (!chunkIndex && !complete && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(describeUpload(upload)));
+      return;
+    }
+
+    if (chunkIndex && req.method === 'PUT') {
+      const index = Number(chunkIndex);
+      if (index >= upload.totalChunks) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Chunk index out of range' }));
+        return;
+      }
+
+      // Every chunk is full-size except possibly the last one
+      const expected = index === upload.totalChunks - 1
+        ? upload.size - index * upload.chunkSize
+        : upload.chunkSize;
+
+      const sendWrongSize = () => sendWrongChunkSize(res, index, expected);
+      readBody(req, res, expected, (body) => {
+        if (body.length !== expected) {
+          sendWrongSize();
+          return;
+        }
+
+        upload.chunks.set(index, body);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ received: upload.chunks.size, totalChunks: upload.totalChunks }));
+      }, sendWrongSize);
+      return;
+    }
+
+    if (complete && req.method === 'POST') {
+      if (upload.chunks.size !== upload.totalChunks) {
+        res.writeHead(409, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Upload is missing chunks', ...describeUpload(upload) }));
+        return;
+      }
+
+      const data = Buffer.concat(
+        Array.from({ length: upload.totalChunks }, (_, i) => upload.chunks.get(i)),
+        upload.size
+      );
+      uploads.delete(uploadId);
+      clearTimeout(upload.expiryTimer);
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(storeFile({
+        data,
+        mimeType: upload.mimeType,
+        fileName: upload.fileName,
+        roomId: upload.roomId,
+        burnAfterDownload: upload.burnAfterDownload
+      })));
+      return;
+    }
+  }
+
+  // File download endpoint
+  if (req.url.startsWith('/files/') && req.method === 'GET') {
+    const fileId = req.url.split('/')[2];
+    // The storage backend returns nothing for expired files. A
+    // burn-after-download file is unavailable while its one download runs.
+    const file = storage.getFile(fileId);
+
+    if (!file || burningFiles.has(fileId)) {
+      downloads.inc({ result: 'not_found' });
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'File not found or expired' }));
+      return;
+    }
+
+    if (file.burnAfterDownload) {
+      burningFiles.add(fileId);
+      res.on('close', () => {
+        burningFiles.delete(fileId);
+        // If the download failed, let them try again
+        if (res.writableFinished) {
+          burnFile(file);
+        }
+      });
+    }
+
+    downloads.inc({ result: 'ok' });
+    downloadBytes.inc({}, file.data.length);
+
+    // ASCII fallback for the quoted filename, full name in filename*
+    const asciiName = file.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    res.writeHead(200, { 
+      'Content-Type': file.mimeType,
+      'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+      'Content-Length': file.data.length
+    });
+    res.end(file.data);
+    return;
+  }
+
+  // Default response
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+// Create WebSocket server
+// Never select the resume entry: the chosen subprotocol is echoed back
+const wss = new WebSocketServer({
+  server: httpServer,
+  handleProtocols: (protocols) => protocols.has(SUBPROTOCOL) ? SUBPROTOCOL : false
+});
+
+// The resume token a reconnecting client offered as a subprotocol, if any
+function getResumeToken(req) {
+  const offered = (req.headers['sec-websocket-protocol'] || '').split(',').map(protocol => protocol.trim());
+  const entry = offered.find(protocol => protocol.startsWith(RESUME_SUBPROTOCOL_PREFIX));
+  return entry ? entry.slice(RESUME_SUBPROTOCOL_PREFIX.length) : null;
+}
+
+// Send to the members of a room connected to this instance
+function sendToLocalMembers(roomId, data) {
+  const roomMembers = members.get(roomId);
+  if (!roomMembers) return;
+
+  const started = performance.now();
+  const payload = JSON.stringify(data);
+  let sent = 0;
+  roomMembers.forEach(client => {
+    if (client.readyState === 1) {
+      client.send(payload);
+      sent++;
+    }
+  });
+
+  broadcastRecipients.observe(sent);
+  broadcastDuration.observe((performance.now() - started) / 1000);
+}
+
+// Broadcast user count to all members in a room
+function broadcastUserCount(roomId) {
+  if (!storage.hasRoom(roomId)) return;
+
+  sendToLocalMembers(roomId, {
+    type: 'room_users',
+    roomId,
+    count: getRoomUsers(roomId).length
+  });
+}
+
+// Users in a room connected to this instance
+function getLocalUsers(roomId) {
+  return Array.from(getMembers(roomId)).map(ws => ({
+    id: ws.user.id,
+    name: roomId === 'global'
+      ? ws.user.anonName
+      : ws.user.roomNames.get(roomId),
+    // Users whose socket dropped are still listed during the resume grace window
+    status: ws.readyState === 1 ? ws.user.status : 'away'
+  }));
+}
+
+// Get list of users in a room, across all instances
+function getRoomUsers(roomId) {
+  if (!storage.hasRoom(roomId)) return [];
+
+  const users = getLocalUsers(roomId);
+  remoteInstances.forEach(instance => {
+    users.push(...(instance.rooms.get(roomId) || []));
+  });
+  return users;
+}
+
+// Broadcast user list to all members in a room
+function broadcastUserList(roomId) {
+  const room = storage.getRoom(roomId);
+  if (!room) return;
+
+  const now = Date.now();
+  sendToLocalMembers(roomId, {
+    type: 'room_user_list',
+    roomId,
+    users: getRoomUsers(roomId).map(user => ({
+      ...user,
+      isHost: user.id === room.hostId,
+      mutedUntil: room.mutes?.[user.id] > now ? room.mutes[user.id] : undefined
+    }))
+  });
+}
+
+// Tell every instance who is in a room here. Each one then sends the
+// combined count and list to its own members.
+function announcePresence(roomId) {
+  publishEvent({ type: 'presence', roomId, users: getLocalUsers(roomId) });
+}
+
+// Every local room with its users, for the periodic presence sync
+function getLocalPresence() {
+  const rooms = {};
+  members.forEach((roomMembers, roomId) => {
+    if (roomMembers.size > 0) {
+      rooms[roomId] = getLocalUsers(roomId);
+    }
+  });
+  return rooms;
+}
+
+// Replace what we know about another instance's users and refresh the
+// counts of every room that changed
+function updateRemoteInstance(instanceId, rooms) {
+  const previous = remoteInstances.get(instanceId)?.rooms || new Map();
+  const next = new Map(Object.entries(rooms));
+  remoteInstances.set(instanceId, { rooms: next, seenAt: Date.now() });
+
+  new Set([...previous.keys(), ...next.keys()]).forEach(roomId => {
+    if (JSON.stringify(previous.get(roomId)) !== JSON.stringify(next.get(roomId))) {
+      broadcastUserCount(roomId);
+      broadcastUserList(roomId);
+      scheduleDirectoryUpdate(roomId);
+    }
+  });
+}
+
+// Publish an event to every server instance, this one included
+function publishEvent(event) {
+  pubsub.publish(EVENTS_CHANNEL, { ...event, origin: INSTANCE_ID });
+}
+
+// Apply an event from any instance (including this one) to local state
+function handleEvent(event) {
+  const fromHere = event.origin === INSTANCE_ID;
+
+  switch (event.type) {
+    case 'message': {
+      if (!storage.hasRoom(event.roomId)) return;
+
+      // View-once messages are only delivered, never stored
+      if (!event.message.viewOnce) {
+        storage.appendMessage(event.roomId, event.message);
+      }
+      sendToLocalMembers(event.roomId, { type: 'new_message', message: event.message });
+      messageDelivery.observe((Date.now() - event.message.timestamp) / 1000);
+      break;
+    }
+
+    case 'direct_message': {
+      if (!storage.hasRoom(event.threadId)) {
+        storage.saveRoom({
+          id: event.threadId,
+          direct: true,
+          isPrivate: false,
+          roomId: event.roomId,
+          participants: [event.message.senderId, event.message.recipientId],
+          seq: 0,
+          ttl: event.ttl
+        });
+      }
+      storage.appendMessage(event.threadId, event.message);
+      sendDirectMessage(event.roomId, event.message, event.ttl);
+      break;
+    }
+
+    case 'presence': {
+      scheduleDirectoryUpdate(event.roomId);
+      if (fromHere) {
+        broadcastUserCount(event.roomId);
+        broadcastUserList(event.roomId);
+      } else {
+        const rooms = Object.fromEntries(remoteInstances.get(event.origin)?.rooms || []);
+        rooms[event.roomId] = event.users;
+        updateRemoteInstance(event.origin, rooms);
+      }
+      break;
+    }
+
+    case 'presence_sync': {
+      if (!fromHere) updateRemoteInstance(event.origin, event.rooms);
+      break;
+    }
+
+    case 'room_created': {
+      if (!fromHere && !storage.hasRoom(event.room.id)) {
+        storage.saveRoom(event.room);
+      }
+      scheduleDirectoryUpdate(event.room.id);
+      break;
+    }
+
+    case 'room_updated': {
+      const room = storage.getRoom(event.roomId);
+      if (!room) return;
+
+      storage.saveRoom(Object.assign(room, event.changes));
+      scheduleDirectoryUpdate(event.roomId);
+      sendToLocalMembers(event.roomId, {
+        type: 'room_updated',
+        roomId: event.roomId,
+        ...describeRoom(room)
+      });
+      broadcastUserList(event.roomId);
+      break;
+    }
+
+    // Kicked or banned by the host
+    case 'user_removed': {
+      Array.from(getMembers(event.roomId)).forEach(client => {
+        if (client.user.id !== event.userId) return;
+
+        if (client.readyState === 1) {
+          client.send(JSON.stringify({
+            type: 'kicked',
+            roomId: event.roomId,
+            banned: event.banned
+          }));
+        }
+        client.user.roomNames.delete(event.roomId);
+        leaveRoom(client, false);
+        joinRoom(client, 'global');
+      });
+      break;
+    }
+
+    // Someone in the room answered a knock. Whichever instance holds the
+    // waiting user's session lets them in or turns them away.
+    case 'knock_answered': {
+      sessions.forEach(({ user, ws: client }) => {
+        if (user.id !== event.userId || user.knocking?.roomId !== event.roomId) return;
+
+        const { username } = user.knocking;
+        user.knocking = null;
+
+        const room = storage.getRoom(event.roomId);
+        if (!room || !event.approved) {
+          client.send(JSON.stringify({ type: 'knock_denied', roomId: event.roomId }));
+          return;
+        }
+
+        // Things may have changed while they waited
+        if (!canJoin(client, room, username)) return;
 
-    if (!file) {
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'File not found or expired' }));
-      return;
+        user.roomNames.set(event.roomId, username);
+        joinRoom(client, event.roomId);
+      });
+      break;
     }
 
-    // Check if file is expired
-    if (Date.now() - file.timestamp > MESSAGE_TTL) {
-      files.delete(fileId);
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'File not found or expired' }));
-      return;
+    case 'broadcast': {
+      sendToLocalMembers(event.roomId, event.data);
+      break;
     }
 
-    const buffer = Buffer.from(file.data, 'base64');
-    res.writeHead(200, { 
-      'Content-Type': file.mimeType,
-      'Content-Disposition': `attachment; filename="${file.fileName}"`,
-      'Content-Length': buffer.length
-    });
-    res.end(buffer);
-    return;
-  }
+    case 'room_deleted': {
+      if (!storage.hasRoom(event.roomId)) return;
+
+      // Before the room goes, while we can still tell it was a channel
+      scheduleDirectoryUpdate(event.roomId);
+      storage.deleteRoom(event.roomId);
+      members.delete(event.roomId);
+      emptyChannels.delete(event.roomId);
+      remoteInstances.forEach(instance => instance.rooms.delete(event.roomId));
+
+      // Nobody is left to answer whoever is waiting in the lobby
+      sessions.forEach(({ user, ws: client }) => {
+        if (user.knocking?.roomId !== event.roomId) return;
+        user.knocking = null;
+        client.send(JSON.stringify({ type: 'knock_denied', roomId: event.roomId }));
+      });
+      console.log(`Deleted empty room: ${event.roomId}`);
+      break;
+    }
 
-  // Default response
-  res.writeHead(404, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify({ error: 'Not found' }));
-});
+    case 'message_edited': {
+      const message = storage.updateMessage(event.roomId, event.messageId, {
+        text: event.text,
+        editedAt: event.editedAt,
+        mentions: event.mentions?.length > 0 ? event.mentions : undefined
+      });
+      if (!message) return;
+
+      sendToLocalMembers(event.roomId, {
+        type: 'message_edited',
+        roomId: event.roomId,
+        messageId: event.messageId,
+        text: event.text,
+        editedAt: event.editedAt,
+        mentions: event.mentions
+      });
+      break;
+    }
 
-// Create WebSocket server
-const wss = new WebSocketServer({ server: httpServer });
+    case 'message_deleted': {
+      const message = storage.getMessages(event.roomId).find(msg => msg.id === event.messageId);
+      if (!message) return;
+
+      storage.deleteMessage(event.roomId, event.messageId);
+      deleteLinkedFile(message);
+      sendToLocalMembers(event.roomId, {
+        type: 'message_deleted',
+        roomId: event.roomId,
+        messageId: event.messageId
+      });
+      break;
+    }
 
-// Broadcast message to room
-function broadcastToRoom(roomId, data) {
-  const room = rooms.get(roomId);
-  if (!room) return;
+    case 'file_consumed': {
+      if (!storage.hasRoom(event.roomId)) return;
 
-  const payload = JSON.stringify(data);
-  room.members.forEach(client => {
-    if (client.readyState === 1) {
-      client.send(payload);
+      storage.getMessages(event.roomId).forEach(msg => {
+        if (msg.fileUrl === event.fileUrl) {
+          storage.updateMessage(event.roomId, msg.id, { fileConsumed: true });
+        }
+      });
+      sendToLocalMembers(event.roomId, {
+        type: 'file_consumed',
+        roomId: event.roomId,
+        fileUrl: event.fileUrl
+      });
+      break;
     }
-  });
-}
-
-// Broadcast user count to all members in a room
-function broadcastUserCount(roomId) {
-  const room = rooms.get(roomId);
-  if (!room) return;
 
-  broadcastToRoom(roomId, {
-    type: 'room_users',
-    roomId,
-    count: room.members.size
-  });
-}
+    // A new instance is starting up: send it our rooms and users
+    case 'hello': {
+      if (fromHere) return;
+
+      publishEvent({
+        type: 'rooms',
+        target: event.origin,
+        rooms: storage.listRooms().map(room => ({
+          room,
+          messages: storage.getMessages(room.id)
+        }))
+      });
+      publishEvent({ type: 'presence_sync', rooms: getLocalPresence() });
+      break;
+    }
 
-// Get list of users in a room
-function getRoomUsers(roomId) {
-  const room = rooms.get(roomId);
-  if (!room) return [];
+    // Rooms from a running instance, adopted where it is further along
+    case 'rooms': {
+      if (event.target !== INSTANCE_ID) return;
 
-  return Array.from(room.members).map(ws => ({
-    id: ws.user.id,
-    name: roomId === 'global'
-      ? ws.user.anonName
-      : ws.user.roomNames.get(roomId)
-  }));
+      event.rooms.forEach(({ room, messages }) => {
+        const local = storage.getRoom(room.id);
+        if (!local || local.seq < room.seq) {
+          storage.restore({ rooms: [room], messages: { [room.id]: messages } });
+        }
+      });
+      break;
+    }
+  }
 }
 
-// Broadcast user list to all members in a room
-function broadcastUserList(roomId) {
-  const room = rooms.get(roomId);
-  if (!room) return;
+pubsub.subscribe(EVENTS_CHANNEL, (event) => {
+  try {
+    handleEvent(event);
+  } catch (error) {
+    console.error(`Error handling ${event.type} event:`, error);
+  }
+});
+publishEvent({ type: 'hello' });
 
-  broadcastToRoom(roomId, {
-    type: 'room_user_list',
-    users: getRoomUsers(roomId)
+// Re-announce our users now and then, and forget instances that went away
+setInterval(() => {
+  publishEvent({ type: 'presence_sync', rooms: getLocalPresence() });
+
+  remoteInstances.forEach((instance, instanceId) => {
+    if (Date.now() - instance.seenAt > PRESENCE_TIMEOUT) {
+      remoteInstances.delete(instanceId);
+      instance.rooms.forEach((users, roomId) => {
+        broadcastUserCount(roomId);
+        broadcastUserList(roomId);
+        deleteRoomIfEmpty(roomId);
+      });
+    }
+  });
+}, PRESENCE_INTERVAL).unref();
+
+// Tell a client too old for this server to reload. The socket stays open:
+// closing it would only make the client reconnect and get the same answer.
+function refuseOutdatedClient(ws) {
+  const refuse = () => sendError(
+    ws,
+    'UNSUPPORTED_PROTOCOL',
+    'This version of OneMinute is out of date. Reload the page to update.',
+    { minVersion: MIN_PROTOCOL_VERSION, maxVersion: PROTOCOL_VERSION }
+  );
+
+  refuse();
+  ws.on('message', (data) => {
+    // Keep-alive pings are answered as usual so they don't repeat the error
+    if (data.toString() === JSON.stringify({ type: 'ping' })) {
+      ws.send(JSON.stringify({ type: 'pong' }));
+      return;
+    }
+    rejectedFrames.inc({ reason: 'outdated_protocol' });
+    refuse();
   });
 }
 
 // Handle WebSocket connections
 wss.on('connection', (ws, req) => {
-  ws.user = {
-    id: crypto.randomUUID(),
-    anonName: generateAnonName(),
-    currentRoom: 'global',
-    roomNames: new Map()
-  };
+  const { searchParams } = new URL(req.url || '/', 'http://localhost');
+
+  // Clients built before protocol versions existed send none
+  const protocolVersion = Number(searchParams.get('protocol')) || 0;
+  if (protocolVersion < MIN_PROTOCOL_VERSION) {
+    refuseOutdatedClient(ws);
+    return;
+  }
+
+  // Clients reconnecting after a drop present their last resume token
+  const resumed = resumeSession(ws, getResumeToken(req));
+  const openedAt = Date.now();
+  connectionsOpened.inc({ resumed: String(resumed) });
+
+  if (!resumed) {
+    ws.user = {
+      id: crypto.randomUUID(),
+      anonName: generateAnonName(),
+      currentRoom: 'global',
+      roomNames: new Map(),
+      status: 'active'
+    };
+  }
 
+  const resumeToken = createSession(ws);
   const socketId = ws.user.id;
+  ws.clientIp = getClientIp(req);
 
-  // Track visit statistics
+  // Track visit statistics (a resumed session is not a new visit)
   const now = new Date();
   const dayKey = now.toISOString().slice(0, 10);
   const monthKey = now.toISOString().slice(0, 7);
 
-  visits.daily.set(dayKey, (visits.daily.get(dayKey) || 0) + 1);
-  visits.monthly.set(monthKey, (visits.monthly.get(monthKey) || 0) + 1);
+  if (!resumed) {
+    storage.incrementCounter('visits.daily', dayKey);
+    storage.incrementCounter('visits.monthly', monthKey);
+  }
 
   // ✅ IMPROVED: Clean up ghost sockets from all rooms
   wss.clients.forEach(client => {
     if (client !== ws && client.readyState !== 1) {
-      rooms.forEach(room => room.members.delete(client));
+      members.forEach(roomMembers => roomMembers.delete(client));
     }
   });
 
-  console.log(`Client connected: ${socketId} (Daily: ${visits.daily.get(dayKey)}, Monthly: ${visits.monthly.get(monthKey)})`);
+  const dailyVisits = storage.getCounters('visits.daily')[dayKey];
+  const monthlyVisits = storage.getCounters('visits.monthly')[monthKey];
+  console.log(`Client ${resumed ? 'resumed' : 'connected'}: ${socketId} (Daily: ${dailyVisits}, Monthly: ${monthlyVisits})`);
 
   // Send user identity on initial connection
   ws.send(JSON.stringify({
     type: 'identity',
     userId: ws.user.id,
-    anonName: ws.user.anonName
+    anonName: ws.user.anonName,
+    resumeToken,
+    resumed,
+    maxFileSize: MAX_FILE_SIZE,
+    protocolVersion: PROTOCOL_VERSION
   }));
 
-  // Join global room (joinRoom will send init with messages)
-  joinRoom(ws, 'global');
+  if (resumed && storage.hasRoom(ws.user.currentRoom)) {
+    // Back in the same room without join announcements. The client asks
+    // for whatever it missed with a replay request.
+    announcePresence(ws.user.currentRoom);
+  } else {
+    // Join global room (joinRoom will send init with messages)
+    joinRoom(ws, 'global');
+  }
 
   // Handle messages from client
   ws.on('message', (data) => {
     try {
       const parsed = JSON.parse(data.toString());
 
+      const invalid = validateClientFrame(parsed);
+      if (invalid) {
+        rejectedFrames.inc({ reason: 'invalid' });
+        sendError(ws, 'INVALID_MESSAGE', 'Invalid message format', { reason: invalid });
+        return;
+      }
+
       // Handle ping
       if (parsed.type === 'ping') {
         ws.send(JSON.stringify({ type: 'pong' }));
@@ -442,23 +1862,34 @@ wss.on('connection', (ws, req) => {
 
       // Handle chat message
       if (parsed.type === 'message') {
-        if (!checkRateLimit(ws.user.id)) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Slow down.'
-          }));
+        const retryAfter = checkRateLimit('message', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'message', retryAfter);
+          return;
+        }
+
+        const room = storage.getRoom(ws.user.currentRoom);
+        if (!room) return;
+
+        // Encrypted rooms only accept ciphertext from clients
+        if (room.encrypted && parsed.encrypted !== true) {
+          sendError(ws, 'ENCRYPTION_REQUIRED', 'This room requires encrypted messages');
           return;
         }
 
+        if (refuseIfMuted(ws, room)) return;
+
         const text = parsed.text?.trim();
         const fileUrl = parsed.fileUrl || null;
         const fileName = parsed.fileName || null;
 
         if (!text && !fileUrl) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Message cannot be empty'
-          }));
+          sendError(ws, 'MESSAGE_EMPTY', 'Message cannot be empty');
+          return;
+        }
+
+        if (isTooLong(text || '', room.encrypted)) {
+          sendMessageTooLong(ws);
           return;
         }
 
@@ -476,95 +1907,446 @@ wss.on('connection', (ws, req) => {
           senderId: ws.user.id
         };
 
-        // Store message in room
-        const room = rooms.get(ws.user.currentRoom);
-        if (!room) return;
+        if (room.encrypted) {
+          message.encrypted = true;
+        }
+
+        const fileId = fileUrl && claimFile(ws.user.currentRoom, fileUrl, message.id);
+        if (fileId) {
+          message.fileId = fileId;
+        }
+
+        if (parsed.viewOnce === true) {
+          // Delivered to current members only: never stored, so it has no
+          // sequence number and late joiners never see it
+          message.viewOnce = true;
+        }
+
+        if (parsed.replyTo) {
+          message.replyTo = quoteMessage(ws.user.currentRoom, parsed.replyTo);
+        }
+
+        const mentions = findMentions(ws, room, message.text, parsed.mentions);
+        if (mentions.length > 0) {
+          message.mentions = mentions;
+        }
+
+        // Store and broadcast to room on every instance
+        postMessage(ws.user.currentRoom, message);
+        messagesSent.inc({ room_type: roomType(room) });
+        recordActivity('messages');
+      }
+
+      // Handle edits and unsends of the user's own messages
+      if (parsed.type === 'edit_message' || parsed.type === 'delete_message') {
+        const retryAfter = checkRateLimit('message', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'message', retryAfter);
+          return;
+        }
+
+        const roomId = ws.user.currentRoom;
+        const message = findOwnMessage(ws, roomId, parsed.messageId);
+        if (!message) return;
+
+        if (parsed.type === 'delete_message') {
+          publishEvent({ type: 'message_deleted', roomId, messageId: message.id });
+          return;
+        }
+
+        const room = storage.getRoom(roomId);
+        if (room.encrypted && parsed.encrypted !== true) {
+          sendError(ws, 'ENCRYPTION_REQUIRED', 'This room requires encrypted messages');
+          return;
+        }
+
+        // A mute also stops rewriting what was already said
+        if (refuseIfMuted(ws, room)) return;
+
+        const text = parsed.text.trim();
+        if (!text && !message.fileUrl) {
+          sendError(ws, 'MESSAGE_EMPTY', 'Message cannot be empty');
+          return;
+        }
+
+        if (isTooLong(text, room.encrypted)) {
+          sendMessageTooLong(ws);
+          return;
+        }
+
+        publishEvent({
+          type: 'message_edited',
+          roomId,
+          messageId: message.id,
+          text,
+          editedAt: Date.now(),
+          mentions: findMentions(ws, room, text, parsed.mentions)
+        });
+      }
+
+      // Direct messages, only to someone in the same room
+      if (parsed.type === 'direct_message') {
+        const retryAfter = checkRateLimit('message', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'message', retryAfter);
+          return;
+        }
+
+        if (parsed.userId === ws.user.id) {
+          sendError(ws, 'CANNOT_TARGET_SELF', "You can't message yourself");
+          return;
+        }
+
+        const roomId = ws.user.currentRoom;
+        const recipient = getRoomUsers(roomId).find(user => user.id === parsed.userId);
+        if (!recipient) {
+          sendError(ws, 'USER_NOT_IN_ROOM', 'You can only message people in your room', { userId: parsed.userId });
+          return;
+        }
+
+        // Both ends hold the room key, so in an encrypted room the server
+        // only ever sees ciphertext here too
+        const room = storage.getRoom(roomId);
+        if (room.encrypted && parsed.encrypted !== true) {
+          sendError(ws, 'ENCRYPTION_REQUIRED', 'This room requires encrypted messages');
+          return;
+        }
 
-        room.messages.push(message);
+        const text = parsed.text.trim();
+        if (!text) {
+          sendError(ws, 'MESSAGE_EMPTY', 'Message cannot be empty');
+          return;
+        }
+
+        if (isTooLong(text, room.encrypted)) {
+          sendMessageTooLong(ws);
+          return;
+        }
 
-        // Broadcast to room
-        broadcastToRoom(ws.user.currentRoom, {
-          type: 'new_message',
-          message
+        const timestamp = Date.now();
+        publishEvent({
+          type: 'direct_message',
+          roomId,
+          threadId: directThreadId(roomId, ws.user.id, recipient.id),
+          ttl: room.ttl,
+          message: {
+            id: `dm_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+            text,
+            timestamp,
+            sender: roomId === 'global'
+              ? ws.user.anonName
+              : ws.user.roomNames.get(roomId) || 'Guest',
+            senderId: ws.user.id,
+            recipientId: recipient.id,
+            recipientName: recipient.name,
+            ...(room.encrypted && { encrypted: true })
+          }
         });
+        messagesSent.inc({ room_type: 'direct' });
+        recordActivity('messages');
+      }
+
+      // The rest of the direct thread from the current room, e.g. when opening it
+      if (parsed.type === 'dm_history') {
+        const threadId = directThreadId(ws.user.currentRoom, ws.user.id, parsed.userId);
+        ws.send(JSON.stringify({
+          type: 'dm_history',
+          userId: parsed.userId,
+          messages: storage.hasRoom(threadId) ? getActiveMessages(threadId) : []
+        }));
       }
 
       // Handle room creation
       if (parsed.type === 'create_room') {
-        const roomId = crypto.randomUUID();
-        const roomKey = crypto.randomBytes(6).toString('hex');
-        
-        rooms.set(roomId, {
-          id: roomId,
-          key: roomKey,
-          isPrivate: true,
-          members: new Set(),
-          messages: []
-        });
+        const retryAfter = checkRateLimit('create_room', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'create_room', retryAfter);
+          return;
+        }
+
+        // The room key is generated client-side; we only get the derived auth token
+        if (!isValidRoomAuth(parsed.roomAuth)) {
+          sendError(ws, 'INVALID_ROOM_KEY', 'Invalid room key');
+          return;
+        }
 
         const username = parsed.username?.trim() || 'Host';
         
         if (username.length === 0 || username.length > 20) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Username must be between 1 and 20 characters'
-          }));
+          sendError(ws, 'INVALID_USERNAME', 'Username must be between 1 and 20 characters');
+          return;
+        }
+
+        const ttl = parsed.ttl === undefined ? DEFAULT_ROOM_TTL : Number(parsed.ttl);
+
+        if (!ROOM_TTL_OPTIONS.includes(ttl)) {
+          sendError(ws, 'INVALID_TTL', 'Unsupported message lifetime', { options: ROOM_TTL_OPTIONS });
+          return;
+        }
+
+        const maxMembers = parsed.maxMembers ?? null;
+        if (!isValidMaxMembers(maxMembers)) {
+          sendError(ws, 'INVALID_MEMBER_LIMIT', `Member limits must be 2 to ${MAX_ROOM_MEMBERS}`, { maxMembers: MAX_ROOM_MEMBERS });
           return;
         }
 
+        const roomId = crypto.randomUUID();
+
+        const room = storage.saveRoom({
+          id: roomId,
+          keyHash: hashRoomAuth(parsed.roomAuth),
+          isPrivate: true,
+          encrypted: true,
+          seq: 0,
+          ttl,
+          hostId: ws.user.id,
+          locked: false,
+          bans: [],
+          mutes: {},
+          ...(parsed.knock === true && { knock: true, knocks: {} }),
+          ...(maxMembers !== null && { maxMembers })
+        });
+
+        // Other instances need the room before anyone there can join it
+        publishEvent({ type: 'room_created', room });
+
+        withdrawKnock(ws.user);
         ws.user.roomNames.set(roomId, username);
 
+        // Announce the room before init so the client can map its key to the id
+        ws.send(JSON.stringify({
+          type: 'room_created',
+          roomId,
+          username,
+          encrypted: true
+        }));
+
         joinRoom(ws, roomId);
+      }
+
+      // Public channels are open to anyone and listed in the directory
+      if (parsed.type === 'create_channel') {
+        const retryAfter = checkRateLimit('create_room', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'create_room', retryAfter);
+          return;
+        }
+
+        const name = parsed.name.trim().replace(/\s+/g, ' ');
+        const topic = (parsed.topic || '').trim();
+        const maxMembers = parsed.maxMembers ?? null;
+        // Channels are public, so nameless members keep their anonymous name
+        const username = parsed.username?.trim() || ws.user.anonName;
+
+        if (name.length === 0 || name.length > MAX_CHANNEL_NAME_LENGTH) {
+          sendError(ws, 'INVALID_CHANNEL', `Channel names must be 1 to ${MAX_CHANNEL_NAME_LENGTH} characters`);
+          return;
+        }
+
+        if (topic.length > MAX_TOPIC_LENGTH) {
+          sendError(ws, 'INVALID_CHANNEL', `Topics can be up to ${MAX_TOPIC_LENGTH} characters`);
+          return;
+        }
+
+        if (!isValidMaxMembers(maxMembers)) {
+          sendError(ws, 'INVALID_MEMBER_LIMIT', `Member limits must be 2 to ${MAX_ROOM_MEMBERS}`, { maxMembers: MAX_ROOM_MEMBERS });
+          return;
+        }
+
+        if (username.length > 20) {
+          sendError(ws, 'INVALID_USERNAME', 'Username must be between 1 and 20 characters');
+          return;
+        }
+
+        if (listChannels().some(channel => channel.name.toLowerCase() === name.toLowerCase())) {
+          sendError(ws, 'CHANNEL_NAME_TAKEN', `There is already a channel called "${name}"`, { name });
+          return;
+        }
+
+        const roomId = crypto.randomUUID();
+        const room = storage.saveRoom({
+          id: roomId,
+          isPrivate: false,
+          channel: { name, topic, createdAt: Date.now() },
+          seq: 0,
+          ttl: MESSAGE_TTL,
+          hostId: ws.user.id,
+          locked: false,
+          bans: [],
+          mutes: {},
+          ...(maxMembers !== null && { maxMembers })
+        });
+
+        publishEvent({ type: 'room_created', room });
 
+        withdrawKnock(ws.user);
+        ws.user.roomNames.set(roomId, username);
         ws.send(JSON.stringify({
           type: 'room_created',
           roomId,
-          roomKey,
-          username
+          username,
+          encrypted: false
         }));
+
+        joinRoom(ws, roomId);
+      }
+
+      // The directory now, and again whenever it changes until unwatched
+      if (parsed.type === 'watch_channels') {
+        ws.watchingChannels = parsed.watching;
+        if (parsed.watching) {
+          ws.send(JSON.stringify({ type: 'channel_list', channels: listChannels() }));
+        }
       }
 
       // Handle room join
       if (parsed.type === 'join_room') {
+        const retryAfter = checkRateLimit('join', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'join', retryAfter);
+          return;
+        }
+
         const roomId = parsed.roomId;
-        const room = rooms.get(roomId);
+        const room = storage.getRoom(roomId);
         
-        if (!room || (room.isPrivate && room.key !== parsed.roomKey)) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Invalid room or key'
-          }));
+        // Direct threads are never joined, only read through dm_history
+        if (!room || room.direct || (room.isPrivate && room.keyHash !== hashRoomAuth(parsed.roomAuth))) {
+          sendError(ws, 'INVALID_ROOM_KEY', 'Invalid room or key', { roomId });
           return;
         }
 
-        const username = parsed.username?.trim() || 'Guest';
+        const username = parsed.username?.trim() || (room.channel ? ws.user.anonName : 'Guest');
         
         if (username.length === 0 || username.length > 20) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Username must be between 1 and 20 characters'
-          }));
+          sendError(ws, 'INVALID_USERNAME', 'Username must be between 1 and 20 characters');
           return;
         }
 
-        // Check for duplicate username
-        const isDuplicate = Array.from(room.members).some(
-          client => client.user.roomNames.get(roomId) === username
-        );
-        
-        if (isDuplicate) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: `Username "${username}" is already taken in this room`
-          }));
+        if (!canJoin(ws, room, username)) return;
+
+        // Knocking rooms hold joiners in the lobby, unless they are already in
+        if (room.knock && !getRoomUsers(roomId).some(user => user.id === ws.user.id)) {
+          requestKnock(ws, roomId, username);
           return;
         }
 
+        withdrawKnock(ws.user);
         ws.user.roomNames.set(roomId, username);
         
         joinRoom(ws, roomId);
       }
 
+      // Anyone in the room can answer someone waiting in its lobby
+      if (parsed.type === 'answer_knock') {
+        const roomId = ws.user.currentRoom;
+        const room = storage.getRoom(roomId);
+
+        // Already answered by someone else, or they stopped waiting
+        if (!room?.knocks || !Object.hasOwn(room.knocks, parsed.userId)) return;
+
+        const knocks = { ...room.knocks };
+        delete knocks[parsed.userId];
+        updateRoom(roomId, { knocks });
+        publishEvent({ type: 'knock_answered', roomId, userId: parsed.userId, approved: parsed.approve });
+      }
+
+      if (parsed.type === 'cancel_knock') {
+        withdrawKnock(ws.user);
+      }
+
+      // Trade an invite token for the sealed room key. The client opens it
+      // with the secret from the link and then joins as usual.
+      if (parsed.type === 'redeem_invite') {
+        const retryAfter = checkRateLimit('join', { user: ws.user.id, ip: ws.clientIp });
+        if (retryAfter > 0) {
+          sendRateLimited(ws, 'join', retryAfter);
+          return;
+        }
+
+        const roomId = parsed.roomId;
+        const room = storage.getRoom(roomId);
+        const invites = room?.invites || {};
+        const invite = Object.hasOwn(invites, parsed.token) ? invites[parsed.token] : null;
+
+        if (!room || !invite || invite.expiresAt <= Date.now()) {
+          sendError(ws, 'INVALID_INVITE', 'This invite has expired or was already used', { roomId });
+          return;
+        }
+
+        // Checked here too, so a refused join doesn't use up a single-use invite
+        if (room.bans?.includes(ws.user.id)) {
+          sendError(ws, 'BANNED', 'You are banned from this room', { roomId });
+          return;
+        }
+
+        if (room.locked) {
+          sendError(ws, 'ROOM_LOCKED', 'This room is locked', { roomId });
+          return;
+        }
+
+        if (invite.singleUse) {
+          const remaining = { ...invites };
+          delete remaining[parsed.token];
+          updateRoom(roomId, { invites: remaining });
+        }
+
+        ws.send(JSON.stringify({ type: 'invite_redeemed', roomId, sealedKey: invite.sealedKey }));
+      }
+
+      // Handle replay of messages missed while disconnected
+      if (parsed.type === 'replay') {
+        const afterSeq = Number(parsed.afterSeq);
+
+        // Asking about another room or without a position: send a fresh snapshot
+        if (parsed.roomId !== ws.user.currentRoom || !Number.isInteger(afterSeq) || afterSeq < 0) {
+          sendInit(ws, ws.user.currentRoom);
+          return;
+        }
+
+        sendReplay(ws, ws.user.currentRoom, afterSeq);
+      }
+
+      // Relay typing to the room; it is never stored. Clients throttle these,
+      // and starts beyond the rate limit are dropped without complaint.
+      if (parsed.type === 'typing') {
+        // "Stopped" is only passed on after "typing", which is rate limited,
+        // so repeating it can't flood the room
+        const roomId = ws.user.currentRoom;
+        if (parsed.typing) {
+          if (checkRateLimit('typing', { user: ws.user.id }) > 0) return;
+          ws.user.typingIn = roomId;
+        } else {
+          if (ws.user.typingIn !== roomId) return;
+          ws.user.typingIn = null;
+        }
+
+        publishEvent({
+          type: 'broadcast',
+          roomId,
+          data: {
+            type: 'typing',
+            roomId,
+            userId: ws.user.id,
+            name: roomId === 'global' ? ws.user.anonName : ws.user.roomNames.get(roomId) || 'Guest',
+            typing: parsed.typing
+          }
+        });
+      }
+
+      // Active or away, as decided by the client from visibility and idle time
+      if (parsed.type === 'set_status') {
+        if (ws.user.status !== parsed.status) {
+          ws.user.status = parsed.status;
+          announcePresence(ws.user.currentRoom);
+        }
+      }
+
+      // Handle host moderation
+      if (HOST_ACTIONS.includes(parsed.type)) {
+        handleHostAction(ws, parsed);
+      }
+
       // Handle leave room (return to global)
       if (parsed.type === 'leave_room') {
         joinRoom(ws, 'global');
@@ -572,35 +2354,30 @@ wss.on('connection', (ws, req) => {
 
     } catch (error) {
       console.error('Error handling message:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Invalid message format'
-      }));
+      rejectedFrames.inc({ reason: 'error' });
+      sendError(ws, 'INVALID_MESSAGE', 'Invalid message format');
     }
   });
 
   // Handle client disconnect
   ws.on('close', () => {
+    connectionsClosed.inc();
+    connectionDuration.observe((Date.now() - openedAt) / 1000);
+
+    // A newer socket has taken over this session
+    if (ws.replaced) return;
+
     console.log(`Client disconnected: ${socketId}`);
-    
-    const currentRoom = rooms.get(ws.user.currentRoom);
-    
-    // ✅ IMPROVED: Clean up from ALL rooms and broadcast updates
-    rooms.forEach(room => {
-      if (room.members.has(ws)) {
-        room.members.delete(ws);
-        broadcastUserCount(room.id);
-        broadcastUserList(room.id);
-      }
-    });
-    
-    rateLimits.delete(socketId);
 
-    // Auto-destroy empty private rooms
-    if (currentRoom && currentRoom.isPrivate && currentRoom.members.size === 0) {
-      rooms.delete(currentRoom.id);
-      console.log(`Deleted empty private room: ${currentRoom.id}`);
-    }
+    // Keep the user in their rooms for a grace window so a reconnect can
+    // resume the session without join/leave noise
+    const session = sessions.get(ws.resumeToken);
+    if (!session) return;
+
+    session.expiryTimer = setTimeout(() => expireSession(ws), RESUME_GRACE);
+
+    // Still listed, but shown as away until they come back
+    announcePresence(ws.user.currentRoom);
   });
 
   // Handle errors
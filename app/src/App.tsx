@@ -1,33 +1,231 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { Fragment, useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import ChatMessage from './components/ChatMessage';
 import MessageInput from './components/MessageInput';
 import ConnectionStatus from './components/ConnectionStatus';
 import RoomControls from './components/RoomControls';
-import { Message, WebSocketMessage } from './types';
+import UserList from './components/UserList';
+import Toasts from './components/Toasts';
+import RoomKeyDialog from './components/RoomKeyDialog';
+import TypingIndicator from './components/TypingIndicator';
+import NotificationSettingsMenu from './components/NotificationSettingsMenu';
+import DirectMessagesPanel from './components/DirectMessagesPanel';
+import InviteDialog from './components/InviteDialog';
+import JoinInviteDialog from './components/JoinInviteDialog';
+import ChannelBrowser from './components/ChannelBrowser';
+import {
+  ChannelInfo,
+  ChannelSummary,
+  ClientFrame,
+  DirectMessage,
+  DirectThread,
+  InviteLink,
+  IssuedInvite,
+  JoinRequest,
+  KnockRequest,
+  Message,
+  NotificationSettings,
+  ReplyTarget,
+  RoomOptions,
+  RoomUser,
+  SendOptions,
+  Toast,
+  UploadStatus,
+  UserStatus,
+  WebSocketMessage
+} from './types';
+import { describeError } from './errors';
+import {
+  loadNotificationSettings,
+  notificationsSupported,
+  requestNotificationPermission,
+  saveNotificationSettings,
+  setFaviconBadge,
+  shouldNotify,
+  showNotification
+} from './notifications';
+import { inviteUrl, openInviteKey, parseInviteLink, sealInviteKey } from './invites';
+import { PROTOCOL_VERSION, RESUME_SUBPROTOCOL_PREFIX, SUBPROTOCOL, resolveMentions, validateServerFrame } from '../protocol';
 import StatsPanel from './components/StatsPanel';
+import {
+  RoomKeys,
+  ENCRYPTION_OVERHEAD,
+  generateRoomKey,
+  deriveRoomKeys,
+  encryptText,
+  encryptBytes,
+  decryptText
+} from './crypto';
+import {
+  CHUNKED_UPLOAD_THRESHOLD,
+  RateLimitError,
+  uploadInChunks,
+  uploadWithProgress
+} from './upload';
 
 // WebSocket server URL - configured for Render deployment
 const WS_URL = 'wss://oneminute-backend-jvip.onrender.com';
 const HTTP_URL = 'https://oneminute-backend-jvip.onrender.com';
 
+// How long a toast stays up, and how many show at once
+const TOAST_DURATION = 6000;
+const MAX_TOASTS = 4;
+// Forget a typist we haven't heard from in this long (MessageInput re-sends every 3 s)
+const TYPING_TIMEOUT = 6000;
+// Without mouse or keyboard input for this long we show as away
+const IDLE_TIMEOUT = 2 * 60 * 1000;
+// Scrolled within this many pixels of the end counts as at the bottom
+const BOTTOM_THRESHOLD = 80;
+// Longest message text shown in a desktop notification
+const NOTIFICATION_TEXT_LENGTH = 200;
+
+const sendFrame = (ws: WebSocket, frame: ClientFrame) => ws.send(JSON.stringify(frame));
+
+// Merge incoming messages into the list, dropping duplicates and keeping room order
+const mergeMessages = <T extends Message>(prev: T[], incoming: T[]): T[] => {
+  const known = new Set(prev.map(m => m.id));
+  const added = incoming.filter(m => !known.has(m.id));
+  if (added.length === 0) return prev;
+
+  // View-once messages are never stored, so they have no sequence number
+  return [...prev, ...added].sort((a, b) =>
+    typeof a.seq === 'number' && typeof b.seq === 'number'
+      ? a.seq - b.seq
+      : a.timestamp - b.timestamp
+  );
+};
+
 function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  // Progress of the current upload (null when idle)
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null);
+  // When the server will accept messages again after rate limiting us (epoch ms)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  // Largest upload the server accepts, announced in the identity frame
+  const [maxFileSize, setMaxFileSize] = useState(1 * 1024 * 1024);
   const [userId, setUserId] = useState<string | null>(null);
   const [anonName, setAnonName] = useState<string | null>(null);
   const [currentRoom, setCurrentRoom] = useState('global');
   const [currentUsername, setCurrentUsername] = useState<string | null>(null);
   const [userCount, setUserCount] = useState(0);
-  const [users, setUsers] = useState<Array<{ id: string; name: string }>>([]);
-  // ✅ NEW: Track if room ID was copied
-  const [roomIdCopied, setRoomIdCopied] = useState(false);
+  const [users, setUsers] = useState<RoomUser[]>([]);
+  const [showUsers, setShowUsers] = useState(false);
+  // ✅ NEW: Track if the invite link (or room ID) was copied
+  const [inviteLinkCopied, setInviteLinkCopied] = useState(false);
+  // Keys for the current room: the current one first, then keys retired by
+  // rotation that older messages were encrypted with. Empty when not encrypted.
+  const [roomCryptoKeys, setRoomCryptoKeys] = useState<CryptoKey[]>([]);
+  const roomCryptoKey = roomCryptoKeys[0] ?? null;
+  // Host and lock state of the current private room
+  const [roomHostId, setRoomHostId] = useState<string | null>(null);
+  const [roomLocked, setRoomLocked] = useState(false);
+  // People waiting in the current room's lobby
+  const [roomKnocks, setRoomKnocks] = useState<KnockRequest[]>([]);
+  // The room whose lobby we are waiting in
+  const [knockingRoom, setKnockingRoom] = useState<string | null>(null);
+  // Name and topic when the current room is a public channel
+  const [roomChannel, setRoomChannel] = useState<ChannelInfo | null>(null);
+  // The channel directory, kept up to date while the browser is open
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  // Message lifetime of the current room, as reported by the server
+  const [roomTtl, setRoomTtl] = useState(10 * 60 * 1000);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  // Room details to show after creating a room or rotating its key
+  const [roomKeyDialog, setRoomKeyDialog] = useState<{ title: string; roomId: string; roomKey: string } | null>(null);
+  // Set to reopen the join form, e.g. after a refused join
+  const [joinDraft, setJoinDraft] = useState<JoinRequest | null>(null);
+  // Invite link the page was opened with, waiting for a username
+  const [pendingInvite, setPendingInvite] = useState<InviteLink | null>(null);
+  // Host dialog for issuing invites, and the invite issued last
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [issuedInvite, setIssuedInvite] = useState<IssuedInvite | null>(null);
+  // The message the user is answering, shown above the input
+  const [replyTarget, setReplyTarget] = useState<ReplyTarget | null>(null);
+  // Text of a message the server refused, handed back to the input
+  const [refusedDraft, setRefusedDraft] = useState<{ text: string } | null>(null);
+  // Message just jumped to from a reply, highlighted for a moment
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Messages that mentioned us while out of view, oldest first
+  const [unreadMentions, setUnreadMentions] = useState<string[]>([]);
+  // Messages that arrived while the tab was hidden or scrolled up, and the
+  // first of them, marked in the list until we next fall behind or send
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [firstUnreadId, setFirstUnreadId] = useState<string | null>(null);
+  // The message list is scrolled away from the newest messages
+  const [isScrolledUp, setIsScrolledUp] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(loadNotificationSettings);
+  const [showNotificationMenu, setShowNotificationMenu] = useState(false);
+  // Direct message conversations by the other person's user ID, and which
+  // one is open in the side panel (null for the list)
+  const [directThreads, setDirectThreads] = useState<Record<string, DirectThread>>({});
+  const [showDirectPanel, setShowDirectPanel] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Other people typing in the current room, until `expiresAt` unless refreshed
+  const [typingUsers, setTypingUsers] = useState<Array<{ userId: string; name: string; expiresAt: number }>>([]);
   
   const wsRef = useRef<WebSocket | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  // Our own presence, sent to the server whenever it changes
+  const statusRef = useRef<UserStatus>('active');
+  const currentRoomRef = useRef('global');
+  // Token from the last identity frame, presented on reconnect to keep our session
+  const resumeTokenRef = useRef<string | null>(null);
+  // Sequence number of the last message seen in the current room
+  const lastSeqRef = useRef(0);
+  const roomTtlRef = useRef(10 * 60 * 1000);
+  // Keys derived from room keys we created or joined, by room ID
+  const roomKeysRef = useRef(new Map<string, RoomKeys>());
+  // The room keys themselves, by room ID, for invite links
+  const roomKeyTextsRef = useRef(new Map<string, string>());
+  // Key for a room we asked to create but whose ID we don't know yet
+  const pendingRoomKeyRef = useRef<{ roomKey: string; keys: RoomKeys } | null>(null);
+  // Keys retired by rotation, newest first, by room ID
+  const previousKeysRef = useRef(new Map<string, CryptoKey[]>());
+  // Key rotations are applied one at a time, each needing the key before it
+  const keyRotationsRef = useRef(Promise.resolve());
+  // Set while we wait for our own key rotation to come back
+  const rotatingKeyRef = useRef(false);
+  // Secret for the invite we asked the server to issue, which only the link carries
+  const inviteSecretRef = useRef<string | null>(null);
+  // Invite we are redeeming, and the username to join with once it's accepted
+  const redeemingInviteRef = useRef<{ roomId: string; secret: string; username: string } | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
+  const messageListRef = useRef<HTMLDivElement | null>(null);
+  // Whether new messages should scroll into view, and where the list was last
+  const atBottomRef = useRef(true);
+  const lastScrollTopRef = useRef(0);
+  const unreadCountRef = useRef(0);
+  // Text of the message we last sent, until it comes back from the server
+  const pendingDraftRef = useRef<string | null>(null);
+  const notificationSettingsRef = useRef(notificationSettings);
+  // The page title without the unread count
+  const baseTitleRef = useRef(document.title);
+  // The direct thread on screen, if the panel is open
+  const visibleThreadRef = useRef<string | null>(null);
+  // Callbacks waiting for the socket to (re)connect, e.g. paused uploads
+  const connectionWaitersRef = useRef<Array<() => void>>([]);
+  const nextToastIdRef = useRef(1);
+  // The last private room join we asked for, so a refused one can be retried
+  const lastJoinRef = useRef<JoinRequest | null>(null);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  // Show a notification that goes away by itself
+  const showToast = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = nextToastIdRef.current++;
+    setToasts(prev => [...prev.slice(-(MAX_TOASTS - 1)), { ...toast, id }]);
+    if (!toast.sticky) {
+      setTimeout(() => dismissToast(id), TOAST_DURATION);
+    }
+  }, [dismissToast]);
+
+  const showError = useCallback((message: string) => showToast({ tone: 'error', message }), [showToast]);
 
   // Scroll to bottom of messages
   const scrollToBottom = () => {
@@ -42,22 +240,86 @@ function App() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Format a room's message lifetime, e.g. "10 minutes" or "1 hour"
+  const formatLifetime = (ms: number): string => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes % 60 === 0) {
+      const hours = minutes / 60;
+      return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+    }
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  };
+
   // Fix file URLs - prefix with backend URL if needed
-  const getFullFileUrl = (fileUrl: string | undefined): string | undefined => {
+  const getFullFileUrl = (fileUrl: string | null | undefined): string | undefined => {
     if (!fileUrl) return undefined;
     if (fileUrl.startsWith('http')) return fileUrl;
     return `${HTTP_URL}${fileUrl}`;
   };
 
-  // ✅ NEW: Copy room ID to clipboard
-  const copyRoomId = async () => {
+  // ✅ NEW: Copy a link that joins the current room, or just its ID if we
+  // don't hold the key
+  const copyInviteLink = async () => {
+    const roomKey = roomKeyTextsRef.current.get(currentRoom);
+    const link = roomKey
+      ? inviteUrl({ roomId: currentRoom, roomKey })
+      : roomChannel ? inviteUrl({ roomId: currentRoom }) : currentRoom;
+    try {
+      await navigator.clipboard.writeText(link);
+      setInviteLinkCopied(true);
+      setTimeout(() => setInviteLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+      showToast({ tone: 'error', message: 'Could not copy the invite link.' });
+    }
+  };
+
+  useEffect(() => {
+    currentRoomRef.current = currentRoom;
+  }, [currentRoom]);
+
+  // The host rotated the room key: open the new key with the current one,
+  // switch to it and keep the old one for earlier messages
+  const applyRotatedKey = async (roomId: string, sealedKey: string) => {
+    const current = roomKeysRef.current.get(roomId);
+    if (!current) return;
+
+    try {
+      const roomKey = await decryptText(current.key, sealedKey);
+      const keys = await deriveRoomKeys(roomKey);
+      const previous = [current.key, ...(previousKeysRef.current.get(roomId) || [])];
+
+      roomKeysRef.current.set(roomId, keys);
+      roomKeyTextsRef.current.set(roomId, roomKey);
+      previousKeysRef.current.set(roomId, previous);
+      if (roomId === currentRoomRef.current) {
+        setRoomCryptoKeys([keys.key, ...previous]);
+        // The server cancels invites sealed with the old key
+        setIssuedInvite(null);
+      }
+
+      if (rotatingKeyRef.current) {
+        rotatingKeyRef.current = false;
+        setRoomKeyDialog({ title: 'Room key rotated', roomId, roomKey });
+      }
+    } catch (error) {
+      console.error('Failed to apply rotated room key:', error);
+    }
+  };
+
+  // The server accepted an invite: open the room key sealed in it and join
+  // with the username given when accepting
+  const openRedeemedInvite = async (roomId: string, sealedKey: string) => {
+    const redeeming = redeemingInviteRef.current;
+    if (!redeeming || redeeming.roomId !== roomId) return;
+    redeemingInviteRef.current = null;
+
     try {
-      await navigator.clipboard.writeText(currentRoom);
-      setRoomIdCopied(true);
-      setTimeout(() => setRoomIdCopied(false), 2000);
+      const roomKey = await openInviteKey(redeeming.secret, sealedKey);
+      await joinRoom(roomId, roomKey, redeeming.username);
     } catch (error) {
-      console.error('Failed to copy room ID:', error);
-      alert('Failed to copy room ID');
+      console.error('Failed to open invite:', error);
+      showToast({ tone: 'error', message: 'This invite link is damaged. Ask the host for a new one.' });
     }
   };
 
@@ -69,7 +331,13 @@ function App() {
         wsRef.current.close();
       }
 
-      const ws = new WebSocket(WS_URL);
+      const params = new URLSearchParams({ protocol: String(PROTOCOL_VERSION) });
+      // The resume token rides in a subprotocol so it never appears in the URL
+      const protocols = [SUBPROTOCOL];
+      if (resumeTokenRef.current) {
+        protocols.push(RESUME_SUBPROTOCOL_PREFIX + resumeTokenRef.current);
+      }
+      const ws = new WebSocket(`${WS_URL}?${params}`, protocols);
       wsRef.current = ws;
 
       ws.onopen = () => {
@@ -77,81 +345,330 @@ function App() {
         setIsConnected(true);
         setConnectionError(null);
 
+        const waiters = connectionWaitersRef.current;
+        connectionWaitersRef.current = [];
+        waiters.forEach(resolve => resolve());
+
         // Start ping interval
         if (pingIntervalRef.current) {
           clearInterval(pingIntervalRef.current);
         }
         pingIntervalRef.current = setInterval(() => {
           if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'ping' }));
+            sendFrame(ws, { type: 'ping' });
           }
         }, 30000);
       };
 
       ws.onmessage = (event) => {
         try {
-          const data: WebSocketMessage = JSON.parse(event.data);
+          const frame: unknown = JSON.parse(event.data);
+          const invalid = validateServerFrame(frame);
+          if (invalid) {
+            console.warn('Ignoring invalid frame from server:', invalid);
+            return;
+          }
+          const data = frame as WebSocketMessage;
 
           switch (data.type) {
             case 'identity':
+              if (data.protocolVersion < PROTOCOL_VERSION) {
+                showToast({
+                  tone: 'info',
+                  message: 'The server is running an older version of OneMinute. Some features may not work until it updates.'
+                });
+              }
+              resumeTokenRef.current = data.resumeToken;
+              userIdRef.current = data.userId;
               setUserId(data.userId);
+              // The server starts every session as active
+              if (statusRef.current !== 'active') {
+                sendFrame(ws, { type: 'set_status', status: statusRef.current });
+              }
               setAnonName(data.anonName);
+              setMaxFileSize(data.maxFileSize);
+              if (data.resumed) {
+                // Same session: ask for everything broadcast while we were away
+                sendFrame(ws, {
+                  type: 'replay',
+                  roomId: currentRoomRef.current,
+                  afterSeq: lastSeqRef.current
+                });
+              } else {
+                // Fresh session: keys for rooms we were in are no longer useful
+                roomKeysRef.current.clear();
+                roomKeyTextsRef.current.clear();
+                previousKeysRef.current.clear();
+                // Nor are direct threads, which belonged to our old user ID
+                setDirectThreads({});
+                setActiveThreadId(null);
+                // A lobby forgets whoever was waiting in it when their session ended
+                setKnockingRoom(null);
+              }
               break;
 
-            case 'init':
+            case 'init': {
+              // Direct threads belong to the room they were sent from
+              if (data.roomId !== currentRoomRef.current) {
+                setDirectThreads({});
+                setActiveThreadId(null);
+              }
+              currentRoomRef.current = data.roomId;
+              lastSeqRef.current = data.seq;
+              roomTtlRef.current = data.ttl;
+              setRoomTtl(data.ttl);
               setCurrentRoom(data.roomId);
               setCurrentUsername(data.username);
               setMessages(data.messages || []);
+              setTypingUsers([]);
+              setReplyTarget(null);
+              setUnreadMentions([]);
+              // A new room starts read and scrolled to the end
+              atBottomRef.current = true;
+              unreadCountRef.current = 0;
+              setUnreadCount(0);
+              setFirstUnreadId(null);
+              setIsScrolledUp(false);
+              setRoomHostId(data.hostId);
+              setRoomLocked(data.locked);
+              setRoomChannel(data.channel ?? null);
+              setRoomKnocks(data.knocks ?? []);
+              // Let in, or in another room, which ends any wait in a lobby
+              if (data.roomId !== 'global') {
+                setKnockingRoom(null);
+              }
+              setShowInviteDialog(false);
+              setIssuedInvite(null);
+              const current = data.encrypted ? roomKeysRef.current.get(data.roomId) : undefined;
+              setRoomCryptoKeys(
+                current ? [current.key, ...(previousKeysRef.current.get(data.roomId) || [])] : []
+              );
               break;
+            }
 
             case 'new_message':
               if (data.message) {
                 const msg = {
                   ...data.message,
-                  remainingTime: data.message.remainingTime ?? 10 * 60 * 1000  // ✅ CLIENT FALLBACK
+                  remainingTime: data.message.remainingTime ?? roomTtlRef.current  // ✅ CLIENT FALLBACK
                 };
-                setMessages(prev => {
-                  // Deduplication: avoid duplicates on reconnect/replay
-                  if (prev.some(m => m.id === msg.id)) {
-                    return prev;
+                if (typeof msg.seq === 'number') {
+                  // A jump in sequence numbers means we missed something
+                  if (msg.seq > lastSeqRef.current + 1) {
+                    sendFrame(ws, {
+                      type: 'replay',
+                      roomId: currentRoomRef.current,
+                      afterSeq: lastSeqRef.current
+                    });
                   }
-                  return [...prev, msg];
-                });
+                  lastSeqRef.current = Math.max(lastSeqRef.current, msg.seq);
+                }
+                if (msg.senderId === userIdRef.current) {
+                  pendingDraftRef.current = null;
+                }
+                // Deduplication: avoid duplicates on reconnect/replay
+                setMessages(prev => mergeMessages(prev, [msg]));
+                noteIncomingMessage(msg);
+                // Someone talking to us while it isn't in view: tab hidden or
+                // scrolled up through older messages
+                if (
+                  (document.hidden || !atBottomRef.current) &&
+                  msg.senderId !== userIdRef.current &&
+                  msg.mentions?.some(mention => mention.userId === userIdRef.current)
+                ) {
+                  setUnreadMentions(prev => (prev.includes(msg.id) ? prev : [...prev, msg.id]));
+                }
               }
               break;
 
-            case 'room_created':
+            case 'replay':
+              if (data.roomId !== currentRoomRef.current) break;
+              lastSeqRef.current = data.seq;
+              if (data.historyLost) {
+                // Some messages expired before we got them; start from what's left
+                setMessages(data.messages);
+              } else {
+                setMessages(prev => mergeMessages(prev, data.messages));
+              }
+              break;
+
+            case 'message_edited':
+              if (data.roomId !== currentRoomRef.current) break;
+              setMessages(prev =>
+                prev.map(m =>
+                  m.id === data.messageId
+                    ? { ...m, text: data.text, editedAt: data.editedAt, mentions: data.mentions ?? m.mentions }
+                    : m
+                )
+              );
+              break;
+
+            case 'message_deleted':
+              if (data.roomId !== currentRoomRef.current) break;
+              setMessages(prev => prev.filter(m => m.id !== data.messageId));
+              setReplyTarget(target => (target?.id === data.messageId ? null : target));
+              break;
+
+            case 'direct_message':
+              addDirectMessages([data.message]);
+              break;
+
+            case 'dm_history':
+              addDirectMessages(data.messages, data.userId);
+              break;
+
+            case 'file_consumed':
+              if (data.roomId !== currentRoomRef.current) break;
+              setMessages(prev =>
+                prev.map(m => (m.fileUrl === data.fileUrl ? { ...m, fileConsumed: true } : m))
+              );
+              break;
+
+            case 'room_created': {
+              const pending = pendingRoomKeyRef.current;
+              pendingRoomKeyRef.current = null;
+              if (pending) {
+                roomKeysRef.current.set(data.roomId, pending.keys);
+                roomKeyTextsRef.current.set(data.roomId, pending.roomKey);
+              }
               setCurrentRoom(data.roomId);
               setCurrentUsername(data.username);
               setMessages([]);
-              alert(`Room created!\nShare this key: ${data.roomKey}`);
+              if (pending) {
+                setRoomKeyDialog({ title: 'Room created', roomId: data.roomId, roomKey: pending.roomKey });
+              }
               break;
+            }
 
-            case 'room_joined':
-              setCurrentRoom(data.roomId);
-              setCurrentUsername(data.username);
-              setMessages(data.messages || []);
+            case 'room_updated':
+              if (data.roomId !== currentRoomRef.current) break;
+              setRoomHostId(data.hostId);
+              setRoomLocked(data.locked);
+              setRoomChannel(data.channel ?? null);
+              setRoomKnocks(data.knocks ?? []);
+              break;
+
+            case 'knock_pending':
+              setKnockingRoom(data.roomId);
+              break;
+
+            case 'knock_denied':
+              setKnockingRoom(null);
+              showToast({ tone: 'info', message: 'Nobody let you into the room.' });
+              break;
+
+            case 'channel_list':
+              setChannels(data.channels);
+              break;
+
+            case 'kicked':
+              // The server moves us back to the global room right after this
+              roomKeysRef.current.delete(data.roomId);
+              roomKeyTextsRef.current.delete(data.roomId);
+              previousKeysRef.current.delete(data.roomId);
+              showToast({
+                tone: 'info',
+                message: data.banned ? 'The host banned you from the room.' : 'The host removed you from the room.'
+              });
+              break;
+
+            case 'key_rotated':
+              keyRotationsRef.current = keyRotationsRef.current.then(() =>
+                applyRotatedKey(data.roomId, data.sealedKey)
+              );
+              break;
+
+            case 'invite_created': {
+              const secret = inviteSecretRef.current;
+              inviteSecretRef.current = null;
+              if (secret) {
+                setIssuedInvite({
+                  url: inviteUrl({ roomId: data.roomId, token: data.token, secret }),
+                  singleUse: data.singleUse,
+                  expiresAt: data.expiresAt
+                });
+              }
+              break;
+            }
+
+            case 'invite_redeemed':
+              openRedeemedInvite(data.roomId, data.sealedKey);
               break;
 
-            case 'error':
-              alert(data.message || 'An error occurred');
+            case 'error': {
+              const details = data.details || {};
+
+              // A refused join ends any wait in that room's lobby
+              if (details.roomId) {
+                setKnockingRoom(current => (current === details.roomId ? null : current));
+              }
+
+              // A refused message goes back into the input rather than being lost
+              const refusedMessage = data.code === 'MUTED' || data.code === 'MESSAGE_TOO_LONG' ||
+                (data.code === 'RATE_LIMITED' && details.action === 'message');
+              if (refusedMessage && pendingDraftRef.current !== null) {
+                setRefusedDraft({ text: pendingDraftRef.current });
+                pendingDraftRef.current = null;
+              }
+
+              // Sending too fast: the input shows a countdown instead
+              if (data.code === 'RATE_LIMITED' && details.action === 'message' && details.retryAfter) {
+                setRateLimitedUntil(Date.now() + details.retryAfter);
+                break;
+              }
+
+              // This page is older than the server supports; only a reload helps
+              if (data.code === 'UNSUPPORTED_PROTOCOL') {
+                setConnectionError('Update required');
+                showToast({
+                  tone: 'error',
+                  message: describeError(data.code, data.message, details),
+                  sticky: true,
+                  action: { label: 'Reload', onClick: () => window.location.reload() }
+                });
+                break;
+              }
+
+              // A refused join can be fixed and tried again from the join form
+              const join = lastJoinRef.current;
+              const retryJoin = join && details.roomId === join.roomId &&
+                ['INVALID_ROOM_KEY', 'USERNAME_TAKEN'].includes(data.code) ? join : null;
+
+              showToast({
+                tone: 'error',
+                message: describeError(data.code, data.message, details),
+                action: retryJoin
+                  ? { label: 'Try again', onClick: () => setJoinDraft({ ...retryJoin }) }
+                  : undefined
+              });
               break;
+            }
 
             case 'pong':
               // Ping-pong successful
               break;
 
             case 'room_users':
-              if (data.roomId === currentRoom) {
+              if (data.roomId === currentRoomRef.current) {
                 setUserCount(data.count || 0);
               }
               break;
 
             case 'room_user_list':
-              if (data.roomId === currentRoom) {
+              if (data.roomId === currentRoomRef.current) {
                 setUsers(data.users || []);
               }
               break;
+
+            case 'typing': {
+              if (data.roomId !== currentRoomRef.current || data.userId === userIdRef.current) break;
+              const others = (prev: typeof typingUsers) => prev.filter(user => user.userId !== data.userId);
+              setTypingUsers(prev => data.typing
+                ? [...others(prev), { userId: data.userId, name: data.name, expiresAt: Date.now() + TYPING_TIMEOUT }]
+                : others(prev)
+              );
+              break;
+            }
           }
         } catch (error) {
           console.error('Error parsing message:', error);
@@ -186,7 +703,7 @@ function App() {
       console.error('Error creating WebSocket:', error);
       setConnectionError('Failed to connect. Retrying...');
     }
-  }, [currentRoom]);
+  }, []);
 
   // Initial connection
   useEffect(() => {
@@ -205,58 +722,439 @@ function App() {
     };
   }, [connect]);
 
+  // Pick up invite links, on load or pasted into an open tab, and take them
+  // out of the address bar and history so the key doesn't linger there
+  useEffect(() => {
+    const readInvite = () => {
+      const invite = parseInviteLink(window.location.hash);
+      if (!invite) return;
+      history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+      setPendingInvite(invite);
+    };
+
+    readInvite();
+    window.addEventListener('hashchange', readInvite);
+    return () => window.removeEventListener('hashchange', readInvite);
+  }, []);
+
   // Update remaining times every second
   useEffect(() => {
+    const tick = <T extends Message>(list: T[]): T[] =>
+      list
+        .map((msg) => {
+          if (typeof msg.remainingTime !== 'number') return msg;
+          return {
+            ...msg,
+            remainingTime: msg.remainingTime - 1000,
+          };
+        })
+        .filter((msg) =>
+          typeof msg.remainingTime !== 'number' || msg.remainingTime > 0
+        );
+
     const interval = setInterval(() => {
-      setMessages((prev) =>
-        prev
-          .map((msg) => {
-            if (typeof msg.remainingTime !== 'number') return msg;
-            return {
-              ...msg,
-              remainingTime: msg.remainingTime - 1000,
-            };
-          })
-          .filter((msg) =>
-            typeof msg.remainingTime !== 'number' || msg.remainingTime > 0
-          )
-      );
+      setMessages(tick);
+      setDirectThreads(prev => {
+        const threads = Object.values(prev);
+        if (threads.every(thread => thread.messages.length === 0)) return prev;
+        return Object.fromEntries(
+          threads.map(thread => [thread.userId, { ...thread, messages: tick(thread.messages) }])
+        );
+      });
     }, 1000);
 
     return () => clearInterval(interval);
   }, []);
 
-  // Scroll to bottom when messages change
+  // Drop typists whose "stopped" never arrived, e.g. because they disconnected
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (typingUsers.length === 0) return;
 
-  // Send message
-  const sendMessage = (text: string, fileInfo?: { fileUrl: string; fileName: string }) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      alert('Not connected to server. Please wait...');
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTypingUsers(prev => {
+        const current = prev.filter(user => user.expiresAt > now);
+        return current.length === prev.length ? prev : current;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [typingUsers.length]);
+
+  // Show as away while the tab is hidden or after IDLE_TIMEOUT without input
+  useEffect(() => {
+    let idle = false;
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    const update = () => {
+      const status: UserStatus = document.hidden || idle ? 'away' : 'active';
+      if (status === statusRef.current) return;
+
+      statusRef.current = status;
+      const ws = wsRef.current;
+      if (ws?.readyState === WebSocket.OPEN) {
+        sendFrame(ws, { type: 'set_status', status });
+      }
+    };
+
+    const onActivity = () => {
+      idle = false;
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        idle = true;
+        update();
+      }, IDLE_TIMEOUT);
+      update();
+    };
+
+    const activityEvents = ['mousemove', 'keydown', 'pointerdown', 'touchstart', 'wheel'];
+    activityEvents.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onActivity);
+    onActivity();
+
+    return () => {
+      clearTimeout(idleTimer);
+      activityEvents.forEach(name => window.removeEventListener(name, onActivity));
+      document.removeEventListener('visibilitychange', onActivity);
+    };
+  }, []);
+
+  // Count a message as unread if nobody is looking at it, and raise a
+  // desktop notification if the tab is hidden and the settings ask for one
+  const noteIncomingMessage = (msg: Message) => {
+    if (msg.isSystem || msg.senderId === userIdRef.current) return;
+
+    if (document.hidden || !atBottomRef.current) {
+      if (unreadCountRef.current === 0) {
+        setFirstUnreadId(msg.id);
+      }
+      unreadCountRef.current += 1;
+      setUnreadCount(unreadCountRef.current);
+    }
+
+    const mentioned = Boolean(msg.mentions?.some(mention => mention.userId === userIdRef.current));
+    if (document.hidden && shouldNotify(notificationSettingsRef.current, currentRoomRef.current, mentioned)) {
+      // Decrypting is up to ChatMessage, so encrypted text stays out of notifications
+      const text = msg.encrypted ? 'Sent an encrypted message' : msg.text || (msg.fileUrl ? 'Sent a file' : '');
+      showNotification(
+        mentioned ? `${msg.sender} mentioned you` : msg.sender,
+        text.length > NOTIFICATION_TEXT_LENGTH ? `${text.slice(0, NOTIFICATION_TEXT_LENGTH)}…` : text,
+        `oneminute-${currentRoomRef.current}`,
+        () => jumpToMessage(msg.id)
+      );
+    }
+  };
+
+  // File direct messages under the conversation they belong to. Messages we
+  // receive count as unread unless their thread is open in front of us.
+  const addDirectMessages = (incoming: DirectMessage[], threadUserId?: string) => {
+    const me = userIdRef.current;
+    const byThread = new Map<string, { name: string; messages: DirectMessage[] }>();
+    incoming.forEach(msg => {
+      const mine = msg.senderId === me;
+      const otherId = mine ? msg.recipientId : msg.senderId;
+      const entry = byThread.get(otherId) ?? { name: mine ? msg.recipientName : msg.sender, messages: [] };
+      entry.messages.push(msg);
+      byThread.set(otherId, entry);
+    });
+    // An empty history still opens the thread
+    if (threadUserId && !byThread.has(threadUserId)) {
+      byThread.set(threadUserId, { name: '', messages: [] });
+    }
+
+    const isHistory = Boolean(threadUserId);
+    byThread.forEach(({ name, messages: threadMessages }, otherId) => {
+      const viewing = visibleThreadRef.current === otherId && !document.hidden;
+      const received = isHistory ? [] : threadMessages.filter(msg => msg.senderId !== me);
+
+      setDirectThreads(prev => {
+        const thread = prev[otherId] ?? { userId: otherId, name, messages: [], unread: 0 };
+        return {
+          ...prev,
+          [otherId]: {
+            ...thread,
+            name: name || thread.name,
+            messages: mergeMessages(thread.messages, threadMessages),
+            unread: viewing ? 0 : thread.unread + received.length
+          }
+        };
+      });
+
+      const latest = received[received.length - 1];
+      if (latest && document.hidden && shouldNotify(notificationSettingsRef.current, `dm:${otherId}`, true)) {
+        const text = latest.encrypted ? 'Sent an encrypted message' : latest.text;
+        showNotification(
+          `${latest.sender} (direct message)`,
+          text.length > NOTIFICATION_TEXT_LENGTH ? `${text.slice(0, NOTIFICATION_TEXT_LENGTH)}…` : text,
+          `oneminute-dm-${otherId}`,
+          () => openDirectThread(otherId)
+        );
+      }
+    });
+  };
+
+  // Open the side panel on a conversation, starting one if need be, and
+  // fetch whatever of it hasn't expired
+  const openDirectThread = (otherId: string, name?: string) => {
+    setShowDirectPanel(true);
+    setActiveThreadId(otherId);
+    setShowUsers(false);
+    setDirectThreads(prev => ({
+      ...prev,
+      [otherId]: {
+        ...(prev[otherId] ?? { userId: otherId, name: name ?? 'Someone', messages: [] }),
+        unread: 0
+      }
+    }));
+
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendFrame(ws, { type: 'dm_history', userId: otherId });
+    }
+  };
+
+  // In an encrypted room, encrypted with the room key both of us hold
+  const sendDirectMessage = async (text: string) => {
+    const ws = getOpenSocket();
+    if (!ws || !activeThreadId) return;
+
+    if (roomCryptoKey) {
+      sendFrame(ws, {
+        type: 'direct_message',
+        userId: activeThreadId,
+        text: await encryptText(roomCryptoKey, text),
+        encrypted: true
+      });
+    } else {
+      sendFrame(ws, { type: 'direct_message', userId: activeThreadId, text });
+    }
+  };
+
+  useEffect(() => {
+    visibleThreadRef.current = showDirectPanel ? activeThreadId : null;
+  }, [showDirectPanel, activeThreadId]);
+
+  // Newest conversation first
+  const sortedThreads = Object.values(directThreads).sort(
+    (a, b) => (b.messages[b.messages.length - 1]?.timestamp ?? 0) - (a.messages[a.messages.length - 1]?.timestamp ?? 0)
+  );
+  const directUnread = sortedThreads.reduce((total, thread) => total + thread.unread, 0);
+
+  // The user has seen everything: clear the count but keep the marker
+  const markCaughtUp = () => {
+    if (unreadCountRef.current === 0) return;
+    unreadCountRef.current = 0;
+    setUnreadCount(0);
+  };
+
+  const handleMessagesScroll = () => {
+    const list = messageListRef.current;
+    if (!list) return;
+
+    const distance = list.scrollHeight - list.scrollTop - list.clientHeight;
+    if (distance < BOTTOM_THRESHOLD) {
+      atBottomRef.current = true;
+    } else if (list.scrollTop < lastScrollTopRef.current) {
+      // Only scrolling up leaves the bottom; a smooth scroll down to it passes
+      // through positions above it
+      atBottomRef.current = false;
+    }
+    lastScrollTopRef.current = list.scrollTop;
+    setIsScrolledUp(!atBottomRef.current);
+
+    if (atBottomRef.current && !document.hidden) {
+      markCaughtUp();
+    }
+  };
+
+  // Coming back to the tab counts as reading, if the newest messages are in
+  // view, and so does the direct thread left open
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.hidden) return;
+      if (atBottomRef.current) {
+        markCaughtUp();
+      }
+      const threadId = visibleThreadRef.current;
+      if (threadId) {
+        setDirectThreads(prev =>
+          prev[threadId]?.unread ? { ...prev, [threadId]: { ...prev[threadId], unread: 0 } } : prev
+        );
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Unread count, room and direct messages together, in the tab title and favicon
+  const totalUnread = unreadCount + directUnread;
+  useEffect(() => {
+    document.title = totalUnread > 0 ? `(${totalUnread}) ${baseTitleRef.current}` : baseTitleRef.current;
+    setFaviconBadge(totalUnread);
+  }, [totalUnread]);
+
+  useEffect(() => {
+    notificationSettingsRef.current = notificationSettings;
+  }, [notificationSettings]);
+
+  const updateNotificationSettings = (changes: Partial<NotificationSettings>) => {
+    const next = { ...notificationSettings, ...changes };
+    setNotificationSettings(next);
+    saveNotificationSettings(next);
+  };
+
+  const changeDesktopNotifications = async (desktop: NotificationSettings['desktop']) => {
+    if (desktop !== 'off' && !(await requestNotificationPermission())) {
+      showToast({ tone: 'error', message: 'Notifications are blocked. Allow them in your browser settings first.' });
       return;
     }
+    updateNotificationSettings({ desktop });
+  };
+
+  const toggleRoomMute = () => {
+    const { mutedRooms } = notificationSettings;
+    updateNotificationSettings({
+      mutedRooms: mutedRooms.includes(currentRoom)
+        ? mutedRooms.filter(roomId => roomId !== currentRoom)
+        : [...mutedRooms, currentRoom]
+    });
+  };
+
+  // Scroll to bottom when a message arrives, unless the user scrolled up to
+  // read (our own messages always show). Not on every change: countdowns
+  // update the list each second.
+  const lastMessage = messages[messages.length - 1];
+  const lastMessageId = lastMessage?.id;
+  useEffect(() => {
+    if (atBottomRef.current || (lastMessage && lastMessage.senderId === userIdRef.current)) {
+      scrollToBottom();
+    }
+  }, [lastMessageId]);
+
+  // Messages still in the chat, so replies know whether their original is
+  const messageIds = useMemo(() => new Set(messages.map(m => m.id)), [messages]);
+
+  // Unread mentions whose messages are still in the chat
+  const pendingMentions = unreadMentions.filter(id => messageIds.has(id));
+
+  // Show the oldest unread mention and mark it read
+  const showNextMention = () => {
+    const [next] = pendingMentions;
+    if (!next) return;
+    setUnreadMentions(prev => prev.filter(id => id !== next && messageIds.has(id)));
+    jumpToMessage(next);
+  };
+
+  // User IDs an encrypted message mentions. The server can't read it, so we
+  // resolve them ourselves; for plaintext it does this itself.
+  const encryptedMentions = (text: string) =>
+    resolveMentions(text, users.filter(user => user.id !== userId)).map(mention => mention.userId);
+
+  // Scroll to a message (e.g. the one a reply quotes) and flash it
+  const jumpToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(messageId);
+    setTimeout(() => setHighlightedId(current => (current === messageId ? null : current)), 1500);
+  };
+
+  // The socket, if it is open; otherwise tell the user and return null
+  const getOpenSocket = () => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      showToast({ tone: 'error', message: 'Not connected to the server yet. Please wait...' });
+      return null;
+    }
+    return ws;
+  };
+
+  // Send message
+  const sendMessage = async (
+    text: string,
+    fileInfo?: { fileUrl: string; fileName: string },
+    options: SendOptions = {}
+  ) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
 
-    const message: { type: string; text: string; fileUrl?: string; fileName?: string } = {
+    const message: Extract<ClientFrame, { type: 'message' }> = {
       type: 'message',
       text,
     };
 
+    if (options.viewOnce) {
+      message.viewOnce = true;
+    }
+
+    if (options.replyTo) {
+      message.replyTo = options.replyTo;
+    }
+
     if (fileInfo) {
       message.fileUrl = fileInfo.fileUrl;
       message.fileName = fileInfo.fileName;
     }
 
-    wsRef.current.send(JSON.stringify(message));
+    // Encrypt text and file name so the server only ever sees ciphertext
+    if (roomCryptoKey) {
+      const mentions = encryptedMentions(text);
+      if (mentions.length > 0) {
+        message.mentions = mentions;
+      }
+      if (message.text) {
+        message.text = await encryptText(roomCryptoKey, message.text);
+      }
+      if (message.fileName) {
+        message.fileName = await encryptText(roomCryptoKey, message.fileName);
+      }
+      message.encrypted = true;
+    }
+
+    sendFrame(ws, message);
+    pendingDraftRef.current = text;
+    setReplyTarget(null);
+    setFirstUnreadId(null);
+  };
+
+  // Replace the text of one of our own messages
+  const editMessage = async (messageId: string, text: string) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    if (roomCryptoKey) {
+      sendFrame(ws, {
+        type: 'edit_message',
+        messageId,
+        text: text && await encryptText(roomCryptoKey, text),
+        encrypted: true,
+        mentions: encryptedMentions(text)
+      });
+    } else {
+      sendFrame(ws, { type: 'edit_message', messageId, text });
+    }
+  };
+
+  // Remove one of our own messages for everyone, along with its file
+  const deleteMessage = (messageId: string) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    if (confirm('Unsend this message? It will be removed for everyone.')) {
+      sendFrame(ws, { type: 'delete_message', messageId });
+    }
+  };
+
+  // Tell the room we started or stopped typing. Best effort, so no complaint when offline.
+  const sendTyping = (typing: boolean) => {
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendFrame(ws, { type: 'typing', typing });
+    }
   };
 
   // Leave current room and return to global
   const leaveRoom = () => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      alert('Not connected to server. Please wait...');
-      return;
-    }
+    const ws = getOpenSocket();
+    if (!ws) return;
 
     if (currentRoom === 'global') {
       return; // Already in global
@@ -266,88 +1164,245 @@ function App() {
     setMessages([]);
     setCurrentRoom('global');
     setCurrentUsername(anonName);
+    setRoomChannel(null);
+    setRoomKnocks([]);
 
-    wsRef.current.send(JSON.stringify({ type: 'leave_room' }));
+    sendFrame(ws, { type: 'leave_room' });
   };
 
-  // Create a new private room
-  const createRoom = (username: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      alert('Not connected to server. Please wait...');
-      return;
-    }
+  // Create a new private room. The key is generated here and never sent;
+  // the server only receives the auth token derived from it.
+  const createRoom = async (username: string, ttl: number, options: RoomOptions) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    const roomKey = generateRoomKey();
+    const keys = await deriveRoomKeys(roomKey);
+    pendingRoomKeyRef.current = { roomKey, keys };
 
-    wsRef.current.send(JSON.stringify({
+    sendFrame(ws, {
       type: 'create_room',
-      username
-    }));
+      roomAuth: keys.auth,
+      username,
+      ttl,
+      knock: options.knock,
+      maxMembers: options.maxMembers
+    });
   };
 
   // Join an existing private room
-  const joinRoom = (roomId: string, roomKey: string, username: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      alert('Not connected to server. Please wait...');
-      return;
-    }
+  const joinRoom = async (roomId: string, roomKey: string, username: string) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    const keys = await deriveRoomKeys(roomKey);
+    roomKeysRef.current.set(roomId, keys);
+    roomKeyTextsRef.current.set(roomId, roomKey);
+    lastJoinRef.current = { roomId, roomKey, username };
 
-    wsRef.current.send(JSON.stringify({
+    sendFrame(ws, {
       type: 'join_room',
       roomId,
-      roomKey,
+      roomAuth: keys.auth,
       username
-    }));
+    });
+  };
+
+  // Public channels need no key
+  const createChannel = (name: string, topic: string, maxMembers: number | null, username: string) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    sendFrame(ws, {
+      type: 'create_channel',
+      name,
+      topic,
+      maxMembers,
+      username
+    });
+  };
+
+  const joinChannel = (roomId: string, username: string) => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    sendFrame(ws, {
+      type: 'join_room',
+      roomId,
+      roomAuth: '',
+      username
+    });
+  };
+
+  // Live directory updates, only while the channel browser is open
+  const watchChannels = useCallback((watching: boolean) => {
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendFrame(ws, { type: 'watch_channels', watching });
+    }
+  }, []);
+
+  // Send a host-only moderation command for the current room
+  const sendHostCommand = (command: ClientFrame) => {
+    const ws = getOpenSocket();
+    if (ws) {
+      sendFrame(ws, command);
+    }
+  };
+
+  // Anyone in the room may let people in the lobby in or turn them away
+  const answerKnock = (targetId: string, approve: boolean) => {
+    const ws = getOpenSocket();
+    if (ws) {
+      sendFrame(ws, { type: 'answer_knock', userId: targetId, approve });
+    }
+  };
+
+  const cancelKnock = () => {
+    const ws = getOpenSocket();
+    if (!ws) return;
+
+    sendFrame(ws, { type: 'cancel_knock' });
+    setKnockingRoom(null);
+  };
+
+  const kickUser = (targetId: string) => sendHostCommand({ type: 'kick_user', userId: targetId });
+
+  const muteUser = (targetId: string, minutes: number) =>
+    sendHostCommand({ type: 'mute_user', userId: targetId, minutes });
+
+  const banUser = (targetId: string) => {
+    if (confirm('Ban this user? They will not be able to rejoin this room.')) {
+      sendHostCommand({ type: 'ban_user', userId: targetId });
+    }
+  };
+
+  const makeHost = (targetId: string) => sendHostCommand({ type: 'transfer_host', userId: targetId });
+
+  const toggleLock = () => sendHostCommand({ type: 'lock_room', locked: !roomLocked });
+
+  // Replace the room key. Members get the new key sealed with the current
+  // one, so people who only know the old key (e.g. kicked users) are locked out.
+  const rotateKey = async () => {
+    const current = roomKeysRef.current.get(currentRoom);
+    if (!current || !confirm('Rotate the room key? Anyone joining later will need the new key.')) {
+      return;
+    }
+
+    const roomKey = generateRoomKey();
+    const keys = await deriveRoomKeys(roomKey);
+    rotatingKeyRef.current = true;
+    sendHostCommand({
+      type: 'rotate_key',
+      roomAuth: keys.auth,
+      sealedKey: await encryptText(current.key, roomKey)
+    });
+  };
+
+  // Issue an invite in place of the raw key. The key goes to the server
+  // sealed with a fresh secret, and only the link carries the secret.
+  const createInvite = async (singleUse: boolean, ttl: number) => {
+    const roomKey = roomKeyTextsRef.current.get(currentRoom);
+    if (!roomKey) return;
+
+    const { secret, sealedKey } = await sealInviteKey(roomKey);
+    inviteSecretRef.current = secret;
+    sendHostCommand({ type: 'create_invite', sealedKey, singleUse, ttl });
+  };
+
+  // Join from the invite link the page was opened with
+  const acceptInvite = async (username: string) => {
+    const invite = pendingInvite;
+    const ws = getOpenSocket();
+    if (!invite || !ws) return;
+    setPendingInvite(null);
+
+    if ('roomKey' in invite) {
+      await joinRoom(invite.roomId, invite.roomKey, username);
+    } else if ('token' in invite) {
+      // Issued invites are traded for the sealed key first
+      redeemingInviteRef.current = { roomId: invite.roomId, secret: invite.secret, username };
+      sendFrame(ws, { type: 'redeem_invite', roomId: invite.roomId, token: invite.token });
+    } else {
+      joinChannel(invite.roomId, username);
+    }
   };
 
+  const isHost = currentRoom !== 'global' && roomHostId !== null && roomHostId === userId;
+
+  // Resolve once the socket is connected again. If it never dropped, back off
+  // briefly so a failing request isn't retried in a tight loop.
+  const waitForConnection = () =>
+    new Promise<void>(resolve => {
+      if (wsRef.current?.readyState === WebSocket.OPEN) {
+        setTimeout(resolve, 3000);
+      } else {
+        connectionWaitersRef.current.push(resolve);
+      }
+    });
+
   // Upload file
-  const uploadFile = async (file: File): Promise<{ fileUrl: string; fileName: string } | null> => {
-    // Client-side size check (1 MB)
-    const MAX_FILE_SIZE = 1 * 1024 * 1024;
-    if (file.size > MAX_FILE_SIZE) {
-      alert('File too large. Maximum size is 1 MB.');
+  const uploadFile = async (
+    file: File,
+    options: SendOptions = {}
+  ): Promise<{ fileUrl: string; fileName: string } | null> => {
+    // Client-side size check against the server's limit, including encryption overhead
+    if (file.size > maxFileSize - (roomCryptoKey ? ENCRYPTION_OVERHEAD : 0)) {
+      showToast({ tone: 'error', message: `File too large. Maximum size is ${maxFileSize / (1024 * 1024)} MB.` });
       return null;
     }
 
     setIsUploading(true);
+    setUploadStatus({ progress: 0, waiting: false });
+    const onProgress = (progress: number) => setUploadStatus({ progress, waiting: false });
 
     try {
-      // Convert file to base64
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          // Remove data URL prefix
-          const base64Data = result.split(',')[1];
-          resolve(base64Data);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
+      // In encrypted rooms, upload the ciphertext under a neutral name and type
+      const payload: Blob = roomCryptoKey
+        ? new Blob([await encryptBytes(roomCryptoKey, await file.arrayBuffer())])
+        : file;
 
-      const response = await fetch(`${HTTP_URL}/upload`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          fileData: base64,
-          fileName: file.name,
-          mimeType: file.type || 'application/octet-stream',
-        }),
-      });
+      const fileName = roomCryptoKey ? 'encrypted' : file.name;
+      const mimeType = roomCryptoKey ? 'application/octet-stream' : file.type || 'application/octet-stream';
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Upload failed');
-      }
+      // Large files go up in chunks so a dropped connection doesn't start over
+      const data = payload.size > CHUNKED_UPLOAD_THRESHOLD
+        ? await uploadInChunks({
+            baseUrl: HTTP_URL,
+            body: payload,
+            fileName,
+            mimeType,
+            roomId: currentRoomRef.current,
+            burnAfterDownload: Boolean(options.viewOnce),
+            onProgress,
+            onWaiting: (waiting) => setUploadStatus(prev => prev && { ...prev, waiting }),
+            waitForConnection,
+          })
+        : await uploadWithProgress({
+            url: `${HTTP_URL}/upload`,
+            body: payload,
+            mimeType,
+            headers: {
+              'X-File-Name': encodeURIComponent(fileName),
+              'X-Room-Id': currentRoomRef.current,
+              // Files attached to view-once messages are deleted after one download
+              ...(options.viewOnce ? { 'X-Burn-After-Download': '1' } : {}),
+            },
+            onProgress,
+          });
 
-      const data = await response.json();
       return { fileUrl: data.fileUrl, fileName: file.name };
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        setRateLimitedUntil(Date.now() + error.retryAfter);
+        return null;
+      }
       console.error('Upload error:', error);
-      alert(error instanceof Error ? error.message : 'Failed to upload file');
+      showToast({ tone: 'error', message: error instanceof Error ? error.message : 'Failed to upload file' });
       return null;
     } finally {
       setIsUploading(false);
+      setUploadStatus(null);
     }
   };
 
@@ -376,7 +1431,10 @@ function App() {
               <h1 className="text-xl font-bold text-white">OneMinute</h1>
               <div className="flex items-center gap-2">
                 <p className="text-xs text-white/60">
-                  {currentRoom === 'global' ? 'Anonymous Global Chat' : 'Private Room'}
+                  {currentRoom === 'global' ? 'Anonymous Global Chat' : roomChannel ? `# ${roomChannel.name}` : 'Private Room'}
+                  {roomChannel?.topic && ` • ${roomChannel.topic}`}
+                  {roomCryptoKey && ' • End-to-end encrypted'}
+                  {` • ${formatLifetime(roomTtl)} messages`}
                   {anonName && ` • ${anonName}`}
                   {userCount > 0 && (
                     <span className="ml-2">
@@ -387,11 +1445,11 @@ function App() {
                 {/* ✅ NEW: Room ID copy button */}
                 {currentRoom !== 'global' && (
                   <button
-                    onClick={copyRoomId}
+                    onClick={copyInviteLink}
                     className="text-xs text-cyan-300 hover:text-cyan-200 underline transition-colors flex items-center gap-1"
-                    title="Copy Room ID"
+                    title="Copy a link that joins this room"
                   >
-                    {roomIdCopied ? (
+                    {inviteLinkCopied ? (
                       <>
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -403,7 +1461,7 @@ function App() {
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
                         </svg>
-                        Copy Room ID
+                        Copy Invite Link
                       </>
                     )}
                   </button>
@@ -413,22 +1471,78 @@ function App() {
           </div>
 
           <div className="flex items-center gap-3">
-            {userCount > 0 && (
+            {pendingMentions.length > 0 && (
               <button
-                onClick={() => {
-                  const userList = users
-                    .map(u => `${u.name}${u.id === userId ? ' (You)' : ''}`)
-                    .join('\n');
-                  alert(`Users online (${users.length}):\n\n${userList}`);
-                }}
-                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20"
-                title="View online users"
+                onClick={showNextMention}
+                className="flex items-center gap-1 px-2.5 py-1.5 text-sm bg-amber-500/20 hover:bg-amber-500/30 text-amber-200 rounded-lg transition-colors border border-amber-400/40"
+                title="Show the next message that mentions you"
+              >
+                <span className="font-semibold">@</span>
+                <span>{pendingMentions.length}</span>
+              </button>
+            )}
+            <button
+              onClick={() => setShowDirectPanel(show => !show)}
+              className="relative flex items-center px-2.5 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20"
+              title="Direct messages"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+              {directUnread > 0 && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] px-1 text-[10px] leading-[1.1rem] text-center rounded-full bg-red-500 text-white">
+                  {directUnread}
+                </span>
+              )}
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowNotificationMenu(show => !show)}
+                className={`flex items-center px-2.5 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg transition-colors border border-white/20 ${
+                  notificationSettings.mutedRooms.includes(currentRoom) ? 'text-white/40' : 'text-white'
+                }`}
+                title="Notification settings"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
                 </svg>
-                <span>{userCount}</span>
               </button>
+              {showNotificationMenu && (
+                <NotificationSettingsMenu
+                  settings={notificationSettings}
+                  roomId={currentRoom}
+                  supported={notificationsSupported}
+                  blocked={notificationsSupported && Notification.permission === 'denied'}
+                  onChangeDesktop={changeDesktopNotifications}
+                  onToggleMute={toggleRoomMute}
+                />
+              )}
+            </div>
+            {userCount > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowUsers(show => !show)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20"
+                  title="View online users"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                  </svg>
+                  <span>{userCount}</span>
+                </button>
+                {showUsers && (
+                  <UserList
+                    users={users}
+                    userId={userId}
+                    canModerate={isHost}
+                    onKick={kickUser}
+                    onMute={muteUser}
+                    onBan={banUser}
+                    onMakeHost={makeHost}
+                    onMessage={user => openDirectThread(user.id, user.name)}
+                  />
+                )}
+              </div>
             )}
             
             {currentRoom !== 'global' && (
@@ -450,69 +1564,178 @@ function App() {
           <svg className="w-4 h-4 animate-pulse-slow" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          <span className="font-medium">Messages disappear after 10 minutes</span>
+          <span className="font-medium">Messages disappear after {formatLifetime(roomTtl)}</span>
         </div>
       </div>
 
       {/* ✅ FIXED: Room Controls - Now visible & obvious ABOVE chat area */}
-      {currentRoom === 'global' && (
+      {(currentRoom === 'global' || isHost || roomKnocks.length > 0 || knockingRoom) && (
         <div className="border-b border-white/10 bg-black/20">
           <RoomControls
             isConnected={isConnected}
             currentRoom={currentRoom}
             onCreateRoom={createRoom}
             onJoinRoom={joinRoom}
+            joinDraft={joinDraft}
+            isHost={isHost}
+            isEncrypted={Boolean(roomCryptoKey)}
+            isLocked={roomLocked}
+            onToggleLock={toggleLock}
+            onRotateKey={rotateKey}
+            onInvite={() => setShowInviteDialog(true)}
+            knocks={roomKnocks}
+            onAnswerKnock={answerKnock}
+            isKnocking={knockingRoom !== null}
+            onCancelKnock={cancelKnock}
           />
+          {currentRoom === 'global' && !knockingRoom && (
+            <ChannelBrowser
+              isConnected={isConnected}
+              channels={channels}
+              onWatch={watchChannels}
+              onCreateChannel={createChannel}
+              onJoinChannel={joinChannel}
+            />
+          )}
         </div>
       )}
 
       {/* Chat Area */}
       <main className="flex-1 overflow-hidden flex flex-col max-w-4xl mx-auto w-full">
         {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-3">
-          {messages.length === 0 ? (
-            <div className="flex flex-col items-center justify-center h-full text-white/40">
-              <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+        <div className="relative flex-1 overflow-hidden flex flex-col">
+          <div ref={messageListRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-4 space-y-3">
+            {messages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-white/40">
+                <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                </svg>
+                <p className="text-lg">No messages yet</p>
+                <p className="text-sm">Be the first to send a message!</p>
+              </div>
+            ) : (
+              messages.map((message, index) => (
+                <Fragment key={message.id}>
+                  {message.id === firstUnreadId && index > 0 && (
+                    <div className="flex items-center gap-3 text-xs text-red-300/80" role="separator">
+                      <div className="flex-1 h-px bg-red-400/40" />
+                      New messages
+                      <div className="flex-1 h-px bg-red-400/40" />
+                    </div>
+                  )}
+                  <ChatMessage
+                    message={{
+                      ...message,
+                      fileUrl: getFullFileUrl(message.fileUrl)
+                    }}
+                    formatRemainingTime={formatRemainingTime}
+                    isNew={index === messages.length - 1}
+                    currentUserName={currentUsername ?? undefined}
+                    userId={userId ?? undefined}
+                    cryptoKeys={roomCryptoKeys}
+                    onReply={setReplyTarget}
+                    replyOriginalAvailable={Boolean(message.replyTo && messageIds.has(message.replyTo.id))}
+                    onJumpToMessage={jumpToMessage}
+                    isHighlighted={message.id === highlightedId}
+                    onEdit={editMessage}
+                    onDelete={deleteMessage}
+                    onError={showError}
+                  />
+                </Fragment>
+              ))
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+
+          {/* Shown instead of scrolling while the user reads older messages */}
+          {isScrolledUp && unreadCount > 0 && (
+            <button
+              onClick={scrollToBottom}
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-cyan-600/90 hover:bg-cyan-500 text-white rounded-full shadow-lg transition-colors"
+            >
+              {unreadCount} new {unreadCount === 1 ? 'message' : 'messages'}
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
               </svg>
-              <p className="text-lg">No messages yet</p>
-              <p className="text-sm">Be the first to send a message!</p>
-            </div>
-          ) : (
-            messages.map((message, index) => (
-              <ChatMessage
-                key={message.id}
-                message={{
-                  ...message,
-                  fileUrl: getFullFileUrl(message.fileUrl)
-                }}
-                formatRemainingTime={formatRemainingTime}
-                isNew={index === messages.length - 1}
-                currentUserName={currentUsername ?? undefined}
-                userId={userId ?? undefined}
-              />
-            ))
+            </button>
           )}
-          <div ref={messagesEndRef} />
         </div>
 
         {/* Input Area */}
-        <div className="p-4 border-t border-white/10 bg-black/20 backdrop-blur-md">
+        <div className="px-4 pb-4 pt-2 border-t border-white/10 bg-black/20 backdrop-blur-md">
+          <TypingIndicator names={typingUsers.map(user => user.name)} />
           <MessageInput
             onSendMessage={sendMessage}
             onUploadFile={uploadFile}
             isConnected={isConnected}
             isUploading={isUploading}
+            uploadStatus={uploadStatus}
+            maxFileSize={maxFileSize}
+            rateLimitedUntil={rateLimitedUntil}
+            onTypingChange={sendTyping}
+            replyTarget={replyTarget}
+            onCancelReply={() => setReplyTarget(null)}
+            users={users}
+            userId={userId}
+            refusedDraft={refusedDraft}
+            onError={showError}
           />
         </div>
       </main>
 
+      <StatsPanel />
+
       {/* Footer */}
       <footer className="bg-black/30 border-t border-white/10 px-4 py-2 text-center">
         <p className="text-xs text-white/40">
-          No login required • No tracking • Messages auto-delete after 10 minutes
+          No login required • No tracking • Messages auto-delete after {formatLifetime(roomTtl)}
         </p>
       </footer>
+
+      {roomKeyDialog && (
+        <RoomKeyDialog
+          title={roomKeyDialog.title}
+          roomId={roomKeyDialog.roomId}
+          roomKey={roomKeyDialog.roomKey}
+          onClose={() => setRoomKeyDialog(null)}
+        />
+      )}
+
+      {showInviteDialog && isHost && (
+        <InviteDialog
+          isConnected={isConnected}
+          invite={issuedInvite}
+          onCreate={createInvite}
+          onClose={() => setShowInviteDialog(false)}
+        />
+      )}
+
+      {pendingInvite && (
+        <JoinInviteDialog
+          roomId={pendingInvite.roomId}
+          isChannel={!('roomKey' in pendingInvite) && !('token' in pendingInvite)}
+          isConnected={isConnected}
+          onJoin={acceptInvite}
+          onCancel={() => setPendingInvite(null)}
+        />
+      )}
+
+      {showDirectPanel && (
+        <DirectMessagesPanel
+          threads={sortedThreads}
+          activeThreadId={activeThreadId}
+          userId={userId}
+          canSend={users.some(user => user.id === activeThreadId)}
+          isConnected={isConnected}
+          cryptoKeys={roomCryptoKeys}
+          formatRemainingTime={formatRemainingTime}
+          onSelectThread={threadId => (threadId ? openDirectThread(threadId) : setActiveThreadId(null))}
+          onSend={sendDirectMessage}
+          onClose={() => setShowDirectPanel(false)}
+        />
+      )}
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { ChannelSummary } from '../types';
+
+interface ChannelBrowserProps {
+  isConnected: boolean;
+  // Filled in by the server while the directory is open
+  channels: ChannelSummary[];
+  // Start or stop live directory updates
+  onWatch: (watching: boolean) => void;
+  onCreateChannel: (name: string, topic: string, maxMembers: number | null, username: string) => void;
+  onJoinChannel: (roomId: string, username: string) => void;
+}
+
+// Limits the server enforces
+const MAX_NAME_LENGTH = 40;
+const MAX_TOPIC_LENGTH = 200;
+const MAX_MEMBERS = 500;
+
+const inputClass =
+  'w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50';
+
+// Public channels anyone can join without a key, next to the private room
+// controls. The list only updates while it is open.
+function ChannelBrowser({ isConnected, channels, onWatch, onCreateChannel, onJoinChannel }: ChannelBrowserProps) {
+  const [showDirectory, setShowDirectory] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [username, setUsername] = useState('');
+  const [name, setName] = useState('');
+  const [topic, setTopic] = useState('');
+  const [maxMembers, setMaxMembers] = useState('');
+  // Shown under the form until the member limit is changed
+  const [limitError, setLimitError] = useState<string | null>(null);
+
+  // Watch again after reconnecting: the server forgets watchers with their socket
+  useEffect(() => {
+    if (!showDirectory || !isConnected) return;
+    onWatch(true);
+    return () => onWatch(false);
+  }, [showDirectory, isConnected, onWatch]);
+
+  const query = filter.trim().toLowerCase();
+  const shown = query
+    ? channels.filter(channel =>
+        channel.name.toLowerCase().includes(query) || channel.topic.toLowerCase().includes(query)
+      )
+    : channels;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cap = maxMembers.trim() ? Number(maxMembers) : null;
+    if (!name.trim()) return;
+    if (cap !== null && (!Number.isInteger(cap) || cap < 2 || cap > MAX_MEMBERS)) {
+      setLimitError(`Member limits must be a whole number from 2 to ${MAX_MEMBERS}.`);
+      return;
+    }
+
+    onCreateChannel(name.trim(), topic.trim(), cap, username.trim());
+    setName('');
+    setTopic('');
+    setMaxMembers('');
+    setShowCreate(false);
+  };
+
+  return (
+    <div className="border-t border-white/10 bg-black/10 p-3">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center text-sm text-white/60 mb-2">
+          Public Channels
+        </div>
+
+        {!showDirectory && !showCreate && (
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={() => setShowDirectory(true)}
+              disabled={!isConnected}
+              className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Browse Channels
+            </button>
+            <button
+              onClick={() => setShowCreate(true)}
+              disabled={!isConnected}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Create Channel
+            </button>
+          </div>
+        )}
+
+        {showDirectory && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Search channels"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Your username (optional)"
+                maxLength={20}
+                className={inputClass}
+              />
+            </div>
+
+            <ul className="max-h-64 overflow-y-auto divide-y divide-white/5 rounded-lg border border-white/10">
+              {shown.length === 0 && (
+                <li className="px-3 py-4 text-sm text-white/50 text-center">
+                  {channels.length === 0 ? 'No channels yet. Create the first one!' : 'No channels match your search.'}
+                </li>
+              )}
+              {shown.map(channel => {
+                const full = channel.maxMembers !== null && channel.memberCount >= channel.maxMembers;
+                return (
+                  <li key={channel.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-white truncate"># {channel.name}</div>
+                      {channel.topic && <div className="text-xs text-white/50 truncate">{channel.topic}</div>}
+                    </div>
+                    <span className="text-xs text-white/50 whitespace-nowrap">
+                      {channel.memberCount}
+                      {channel.maxMembers !== null && ` / ${channel.maxMembers}`} online
+                    </span>
+                    <button
+                      onClick={() => onJoinChannel(channel.id, username.trim())}
+                      disabled={!isConnected || full}
+                      className="px-3 py-1 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {full ? 'Full' : 'Join'}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setShowDirectory(false);
+                  setShowCreate(true);
+                }}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30"
+              >
+                + Create Channel
+              </button>
+              <button
+                onClick={() => setShowDirectory(false)}
+                className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showCreate && (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="text-sm text-white/70 text-center">Create a public channel</div>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Channel name"
+              maxLength={MAX_NAME_LENGTH}
+              required
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="Topic (optional)"
+              maxLength={MAX_TOPIC_LENGTH}
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <input
+                type="number"
+                value={maxMembers}
+                onChange={(e) => {
+                  setMaxMembers(e.target.value);
+                  setLimitError(null);
+                }}
+                placeholder="Member limit (optional)"
+                min={2}
+                max={MAX_MEMBERS}
+                aria-invalid={limitError !== null}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Your username (optional)"
+                maxLength={20}
+                className={inputClass}
+              />
+            </div>
+            {limitError && (
+              <p className="text-xs text-red-300 text-center" role="alert">{limitError}</p>
+            )}
+            <p className="text-xs text-white/40 text-center">
+              Anyone can find and join a public channel. Messages are not end-to-end encrypted.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30"
+              >
+                Create Channel
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowCreate(false);
+                  setLimitError(null);
+                }}
+                className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ChannelBrowser;
@@ -1,4 +1,8 @@
-import { Message } from '../types';
+import { useEffect, useState } from 'react';
+import Markdown from './Markdown';
+import { Message, ReplyTarget } from '../types';
+import { decryptBytes, decryptText, decryptWithAny } from '../crypto';
+import { MAX_MESSAGE_LENGTH } from '../../protocol';
 
 interface ChatMessageProps {
   message: Message;
@@ -6,9 +10,129 @@ interface ChatMessageProps {
   isNew?: boolean;
   currentUserName?: string;
   userId?: string;
+  // Room keys, current first, then keys retired by rotation
+  cryptoKeys?: CryptoKey[];
+  onReply?: (target: ReplyTarget) => void;
+  // Whether the message this one replies to is still in the chat
+  replyOriginalAvailable?: boolean;
+  onJumpToMessage?: (messageId: string) => void;
+  // Briefly set after jumping here from a reply
+  isHighlighted?: boolean;
+  // Offered on the user's own messages
+  onEdit?: (messageId: string, text: string) => void;
+  onDelete?: (messageId: string) => void;
+  // Shows what went wrong, e.g. with a download
+  onError?: (message: string) => void;
 }
 
-function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, userId }: ChatMessageProps) {
+const NO_KEYS: CryptoKey[] = [];
+
+// Longest quote shown in a reply, in characters
+const QUOTE_LENGTH = 120;
+
+const shorten = (text: string) =>
+  text.length > QUOTE_LENGTH ? `${text.slice(0, QUOTE_LENGTH).trimEnd()}…` : text;
+
+function ChatMessage({
+  message,
+  formatRemainingTime,
+  isNew,
+  currentUserName,
+  userId,
+  cryptoKeys = NO_KEYS,
+  onReply,
+  replyOriginalAvailable = false,
+  onJumpToMessage,
+  isHighlighted = false,
+  onEdit,
+  onDelete,
+  onError
+}: ChatMessageProps) {
+  // Decrypted text and file name for encrypted messages (null until ready)
+  const [plain, setPlain] = useState<{ text: string; fileName?: string } | null>(
+    message.encrypted ? null : { text: message.text, fileName: message.fileName ?? undefined }
+  );
+  const [decryptFailed, setDecryptFailed] = useState(false);
+  // Draft text while editing, null otherwise
+  const [draft, setDraft] = useState<string | null>(null);
+  // Text quoted from the message this one replies to, decrypted if need be
+  const [quoteText, setQuoteText] = useState<string | null>(
+    message.replyTo?.encrypted ? null : message.replyTo?.text ?? null
+  );
+
+  useEffect(() => {
+    if (!message.encrypted) {
+      setPlain({ text: message.text, fileName: message.fileName ?? undefined });
+      return;
+    }
+    if (cryptoKeys.length === 0) {
+      setDecryptFailed(true);
+      return;
+    }
+
+    let cancelled = false;
+    decryptWithAny(cryptoKeys, key =>
+      Promise.all([
+        message.text ? decryptText(key, message.text) : Promise.resolve(''),
+        message.fileName ? decryptText(key, message.fileName) : Promise.resolve(undefined)
+      ])
+    )
+      .then(([text, fileName]) => {
+        if (!cancelled) setPlain({ text, fileName });
+      })
+      .catch(() => {
+        if (!cancelled) setDecryptFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.encrypted, message.text, message.fileName, cryptoKeys]);
+
+  useEffect(() => {
+    const quote = message.replyTo;
+    if (!quote?.text || !quote.encrypted) {
+      setQuoteText(quote?.text ?? null);
+      return;
+    }
+
+    let cancelled = false;
+    decryptWithAny(cryptoKeys, key => decryptText(key, quote.text || ''))
+      .then(text => {
+        if (!cancelled) setQuoteText(text);
+      })
+      .catch(() => {
+        if (!cancelled) setQuoteText(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.replyTo, cryptoKeys]);
+
+  // Encrypted files are fetched, decrypted in memory and saved from a blob URL
+  const downloadEncryptedFile = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (cryptoKeys.length === 0 || !message.fileUrl) return;
+
+    try {
+      const res = await fetch(message.fileUrl);
+      if (!res.ok) throw new Error('File not found or expired');
+
+      const encrypted = await res.arrayBuffer();
+      const data = await decryptWithAny(cryptoKeys, key => decryptBytes(key, encrypted));
+      const url = URL.createObjectURL(new Blob([data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = plain?.fileName || 'file';
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      onError?.(error instanceof Error ? error.message : 'Failed to download file');
+    }
+  };
+
   // ✅ NEW: Render system messages with special styling
   if (message.isSystem) {
     return (
@@ -24,12 +148,29 @@ function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, use
   }
 
   const hasAttachment = message.fileUrl && message.fileName;
+  const text = plain?.text ?? '';
+  const fileName = plain?.fileName ?? (decryptFailed ? 'Encrypted file' : 'Decrypting…');
   const remainingTime = message.remainingTime || 0;
+  const quote = message.replyTo;
+  // View-once messages are never stored, so there would be nothing to quote or change
+  const canReply = Boolean(onReply) && !message.viewOnce && Boolean(plain);
   
   // Use senderId for reliable identification when available, fallback to username
   const isMine = userId && message.senderId 
     ? message.senderId === userId
     : Boolean(currentUserName && message.sender === currentUserName);
+  const canChange = isMine && Boolean(onEdit) && !message.viewOnce && Boolean(plain);
+  const mentionsMe = !isMine && Boolean(userId && message.mentions?.some(mention => mention.userId === userId));
+
+  const saveEdit = () => {
+    if (draft === null) return;
+    const trimmed = draft.trim();
+    // An edit may only empty the text if a file is left to show
+    if (trimmed !== text && (trimmed || hasAttachment)) {
+      onEdit?.(message.id, trimmed);
+    }
+    setDraft(null);
+  };
 
   const getFileIcon = (fileName: string) => {
     const ext = fileName.split('.').pop()?.toLowerCase();
@@ -64,6 +205,7 @@ function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, use
 
   return (
     <div
+      id={`message-${message.id}`}
       className={`animate-fadeIn ${isNew ? 'animate-slideIn' : ''} ${
         isMine ? 'flex justify-end' : 'flex justify-start'
       }`}
@@ -74,6 +216,11 @@ function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, use
           isMine ? 'text-cyan-300/80' : 'text-white/50'
         }`}>
           {isMine ? 'You' : message.sender}
+          {message.viewOnce && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300">
+              View once
+            </span>
+          )}
         </div>
 
         {/* Message bubble */}
@@ -81,28 +228,99 @@ function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, use
           className={`rounded-lg p-3 transition-colors ${
             isMine
               ? 'bg-gradient-to-br from-cyan-500/20 to-blue-500/20 backdrop-blur-sm border border-cyan-400/30 hover:border-cyan-400/50'
-              : 'bg-white/10 backdrop-blur-sm hover:bg-white/15'
-          }`}
+              : mentionsMe
+                ? 'bg-amber-500/15 backdrop-blur-sm border border-amber-400/40 hover:bg-amber-500/20'
+                : 'bg-white/10 backdrop-blur-sm hover:bg-white/15'
+          } ${isHighlighted ? 'ring-2 ring-cyan-400' : ''}`}
         >
+          {/* Quoted message this one replies to */}
+          {quote && (
+            quote.expired || !replyOriginalAvailable ? (
+              <div className="border-l-2 border-white/20 pl-2 mb-2 text-xs text-white/40 italic">
+                Original message expired
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onJumpToMessage?.(quote.id)}
+                className="block w-full text-left border-l-2 border-cyan-400/60 pl-2 mb-2 hover:bg-white/5 rounded-r transition-colors"
+                title="Show original message"
+              >
+                <div className="text-xs text-cyan-300/80">
+                  {quote.senderId && quote.senderId === userId ? 'You' : quote.sender}
+                </div>
+                <div className="text-xs text-white/60 line-clamp-2 break-words">
+                  {quoteText ? shorten(quoteText) : quote.hasFile ? 'Attachment' : quote.encrypted ? 'Encrypted message' : ''}
+                </div>
+              </button>
+            )
+          )}
+
           {/* Message text */}
-          {message.text && (
-            <p className="text-white/90 whitespace-pre-wrap break-words mb-2">
-              {message.text}
+          {message.encrypted && !plain && (
+            <p className="text-white/50 italic text-sm mb-2">
+              {decryptFailed ? 'Unable to decrypt message' : 'Decrypting…'}
             </p>
           )}
+          {draft !== null ? (
+            <div className="mb-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  } else if (e.key === 'Escape') {
+                    setDraft(null);
+                  }
+                }}
+                autoFocus
+                maxLength={MAX_MESSAGE_LENGTH}
+                rows={Math.min(6, draft.split('\n').length)}
+                className="w-full min-w-[12rem] bg-black/20 border border-white/20 rounded p-2 text-white resize-none outline-none focus:border-cyan-400/50"
+              />
+              <div className="flex justify-end gap-2 mt-1 text-xs">
+                <button type="button" onClick={() => setDraft(null)} className="text-white/50 hover:text-white/80">
+                  Cancel
+                </button>
+                <button type="button" onClick={saveEdit} className="text-cyan-300 hover:text-cyan-200">
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : text && (
+            <Markdown
+              text={text}
+              mentions={message.mentions}
+              userId={userId}
+              className="text-white/90 mb-2"
+            />
+          )}
 
           {/* File attachment */}
-          {hasAttachment && (
+          {hasAttachment && message.fileConsumed && (
+            <div className="flex items-center gap-2 bg-white/5 rounded-lg p-2 mb-2 text-white/40">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
+              </svg>
+              <span className="text-sm truncate flex-1 line-through">{fileName}</span>
+              <span className="text-xs">Already downloaded</span>
+            </div>
+          )}
+
+          {hasAttachment && !message.fileConsumed && (
             <a
-              href={message.fileUrl}
-              download={message.fileName}
+              href={message.fileUrl ?? undefined}
+              download={fileName}
+              onClick={message.encrypted ? downloadEncryptedFile : undefined}
               className="flex items-center gap-2 bg-white/10 hover:bg-white/20 rounded-lg p-2 mb-2 transition-colors group"
             >
               <div className="text-cyan-400 group-hover:text-cyan-300">
-                {getFileIcon(message.fileName!)}
+                {getFileIcon(fileName)}
               </div>
               <span className="text-sm text-white/80 truncate flex-1">
-                {message.fileName}
+                {fileName}
               </span>
               <svg 
                 className="w-4 h-4 text-white/40 group-hover:text-white/60" 
@@ -117,8 +335,43 @@ function ChatMessage({ message, formatRemainingTime, isNew, currentUserName, use
 
           {/* Footer with timestamp and countdown */}
           <div className="flex items-center justify-between text-xs">
-            <span className="text-white/40">
+            <span className="flex items-center gap-2 text-white/40">
               {new Date(message.timestamp).toLocaleTimeString()}
+              {message.editedAt && (
+                <span title={`Edited at ${new Date(message.editedAt).toLocaleTimeString()}`}>(edited)</span>
+              )}
+              {canReply && (
+                <button
+                  type="button"
+                  onClick={() => onReply?.({
+                    id: message.id,
+                    sender: isMine ? 'You' : message.sender,
+                    text,
+                    hasFile: Boolean(hasAttachment)
+                  })}
+                  className="text-white/40 hover:text-cyan-300 transition-colors"
+                >
+                  Reply
+                </button>
+              )}
+              {canChange && draft === null && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(text)}
+                    className="text-white/40 hover:text-cyan-300 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete?.(message.id)}
+                    className="text-white/40 hover:text-red-300 transition-colors"
+                  >
+                    Unsend
+                  </button>
+                </>
+              )}
             </span>
             <div className="flex items-center gap-1 text-orange-300/80">
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
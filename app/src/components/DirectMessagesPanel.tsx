@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+import ChatMessage from './ChatMessage';
+import { DirectThread } from '../types';
+import { MAX_MESSAGE_LENGTH } from '../../protocol';
+
+interface DirectMessagesPanelProps {
+  // Newest conversation first
+  threads: DirectThread[];
+  // The open conversation, or null for the list of conversations
+  activeThreadId: string | null;
+  userId: string | null;
+  // The other person is in our room, which the server requires for sending
+  canSend: boolean;
+  isConnected: boolean;
+  // Keys of the room we share, for direct messages sent in an encrypted room
+  cryptoKeys: CryptoKey[];
+  formatRemainingTime: (ms: number) => string;
+  onSelectThread: (userId: string | null) => void;
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+// Side panel with one-to-one conversations. Like room messages, direct
+// messages disappear when their time is up.
+function DirectMessagesPanel({
+  threads,
+  activeThreadId,
+  userId,
+  canSend,
+  isConnected,
+  cryptoKeys,
+  formatRemainingTime,
+  onSelectThread,
+  onSend,
+  onClose
+}: DirectMessagesPanelProps) {
+  const [text, setText] = useState('');
+  const endRef = useRef<HTMLDivElement | null>(null);
+  const thread = threads.find(t => t.userId === activeThreadId) ?? null;
+  const lastMessageId = thread?.messages[thread.messages.length - 1]?.id;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeThreadId, lastMessageId]);
+
+  const cannotSend = !text.trim() || !canSend || !isConnected;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cannotSend) return;
+    onSend(text.trim());
+    setText('');
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-30 w-full sm:w-96 flex flex-col bg-slate-900/95 backdrop-blur-md border-l border-white/20 shadow-2xl">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+        {thread && (
+          <button
+            onClick={() => onSelectThread(null)}
+            className="text-white/50 hover:text-white/80 transition-colors"
+            title="All conversations"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+        )}
+        <h2 className="flex-1 text-white font-semibold truncate">
+          {thread ? thread.name : 'Direct messages'}
+        </h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white/80 transition-colors" title="Close">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!thread ? (
+        <div className="flex-1 overflow-y-auto">
+          {threads.length === 0 ? (
+            <p className="p-4 text-sm text-white/50">
+              No conversations yet. Open the user list and choose Message next to someone in your room.
+            </p>
+          ) : (
+            <ul className="divide-y divide-white/5">
+              {threads.map(t => {
+                const last = t.messages[t.messages.length - 1];
+                return (
+                  <li key={t.userId}>
+                    <button
+                      onClick={() => onSelectThread(t.userId)}
+                      className="w-full flex items-center gap-2 px-4 py-3 text-left hover:bg-white/5 transition-colors"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-white truncate">{t.name}</div>
+                        <div className="text-xs text-white/50 truncate">
+                          {last
+                            ? `${last.senderId === userId ? 'You: ' : ''}${last.encrypted ? 'Encrypted message' : last.text}`
+                            : 'No messages left'}
+                        </div>
+                      </div>
+                      {t.unread > 0 && (
+                        <span className="min-w-[1.25rem] px-1.5 py-0.5 text-xs text-center rounded-full bg-red-500 text-white">
+                          {t.unread}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {thread.messages.length === 0 && (
+              <p className="text-sm text-white/40 text-center">No messages yet. Say hello!</p>
+            )}
+            {thread.messages.map((message, index) => (
+              <ChatMessage
+                key={message.id}
+                message={message}
+                formatRemainingTime={formatRemainingTime}
+                isNew={index === thread.messages.length - 1}
+                userId={userId ?? undefined}
+                cryptoKeys={cryptoKeys}
+              />
+            ))}
+            <div ref={endRef} />
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-3 border-t border-white/10 space-y-2">
+            {!canSend && (
+              <p className="text-xs text-white/50">{thread.name} is not in your room, so you can't reply for now.</p>
+            )}
+            <div className="flex items-end gap-2 bg-white/10 rounded-lg p-2">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSubmit(e);
+                  }
+                }}
+                placeholder={`Message ${thread.name}...`}
+                disabled={!canSend || !isConnected}
+                maxLength={MAX_MESSAGE_LENGTH}
+                rows={1}
+                autoFocus
+                className="flex-1 bg-transparent text-white placeholder-white/40 resize-none outline-none max-h-[120px] py-1.5 px-1"
+              />
+              <button
+                type="submit"
+                disabled={cannotSend}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-all ${
+                  cannotSend
+                    ? 'bg-white/10 text-white/30 cursor-not-allowed'
+                    : 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white hover:from-cyan-400 hover:to-blue-500'
+                }`}
+              >
+                Send
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+    </aside>
+  );
+}
+
+export default DirectMessagesPanel;
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import QrCode from './QrCode';
+import { IssuedInvite } from '../types';
+
+interface InviteDialogProps {
+  isConnected: boolean;
+  // The invite issued last, if any
+  invite: IssuedInvite | null;
+  onCreate: (singleUse: boolean, ttl: number) => void;
+  onClose: () => void;
+}
+
+// How long an issued invite lasts (must match the server)
+const EXPIRY_OPTIONS = [
+  { label: '10 minutes', value: 10 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '1 day', value: 24 * 60 * 60 * 1000 }
+];
+
+const formatExpiry = (epochMs: number) =>
+  new Date(epochMs).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Lets the host hand out links that expire or work once, instead of the
+// room key itself. Rotating the key cancels every invite issued before.
+function InviteDialog({ isConnected, invite, onCreate, onClose }: InviteDialogProps) {
+  const [singleUse, setSingleUse] = useState(true);
+  const [ttl, setTtl] = useState(EXPIRY_OPTIONS[1].value);
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="invite-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-slate-900 border border-white/20 rounded-xl shadow-2xl p-5 space-y-4"
+      >
+        <div>
+          <h2 id="invite-dialog-title" className="text-lg font-semibold text-white">Invite people</h2>
+          <p className="text-sm text-white/60 mt-1">
+            Invite links let people join without seeing the room key in advance. Rotating the key
+            cancels all of them.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-white cursor-pointer">
+            <input
+              type="radio"
+              name="invite-uses"
+              checked={singleUse}
+              onChange={() => setSingleUse(true)}
+              className="accent-cyan-400"
+            />
+            One person can use it
+          </label>
+          <label className="flex items-center gap-2 text-sm text-white cursor-pointer">
+            <input
+              type="radio"
+              name="invite-uses"
+              checked={!singleUse}
+              onChange={() => setSingleUse(false)}
+              className="accent-cyan-400"
+            />
+            Anyone with the link can use it
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          <span className="whitespace-nowrap">Expires after</span>
+          <select
+            value={ttl}
+            onChange={(e) => setTtl(Number(e.target.value))}
+            className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:border-cyan-400/50"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} className="bg-slate-800">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {invite && (
+          <div className="space-y-3 pt-1">
+            <div className="flex justify-center">
+              <QrCode value={invite.url} size={176} />
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-cyan-200 break-all select-all">
+                {invite.url}
+              </code>
+              <button
+                onClick={copyLink}
+                className="px-3 py-2 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20"
+              >
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-white/50">
+              {invite.singleUse ? 'Works once' : 'Works for anyone'} until {formatExpiry(invite.expiresAt)}.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onCreate(singleUse, ttl)}
+            disabled={!isConnected}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {invite ? 'Create Another Link' : 'Create Link'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default InviteDialog;
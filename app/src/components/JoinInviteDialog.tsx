@@ -0,0 +1,70 @@
+import { useState } from 'react';
+
+interface JoinInviteDialogProps {
+  roomId: string;
+  // A public channel rather than a private room
+  isChannel: boolean;
+  isConnected: boolean;
+  onJoin: (username: string) => void;
+  onCancel: () => void;
+}
+
+// Shown when the page was opened with an invite link: all that's left to
+// choose is a name for the room
+function JoinInviteDialog({ roomId, isChannel, isConnected, onJoin, onCancel }: JoinInviteDialogProps) {
+  const [username, setUsername] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isConnected) return;
+    onJoin(username.trim() || 'Guest');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="join-invite-dialog-title"
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-slate-900 border border-white/20 rounded-xl shadow-2xl p-5 space-y-4"
+      >
+        <div>
+          <h2 id="join-invite-dialog-title" className="text-lg font-semibold text-white">
+            You're invited to a {isChannel ? 'public channel' : 'private room'}
+          </h2>
+          <p className="text-sm text-white/60 mt-1 break-all">Room {roomId}</p>
+        </div>
+
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Your username (optional)"
+          maxLength={20}
+          autoFocus
+          className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+        />
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={!isConnected}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isConnected ? 'Join Room' : 'Connecting...'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+          >
+            Stay in Global Chat
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default JoinInviteDialog;
@@ -0,0 +1,106 @@
+import { ReactNode, useMemo } from 'react';
+import { CodeToken, Inline, TokenKind, highlightCode, parseMarkdown } from '../markdown';
+import { Mention } from '../types';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  // Users the message mentions, and who we are so our own mentions stand out
+  mentions?: Mention[];
+  userId?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-white/40 italic',
+  string: 'text-emerald-300',
+  number: 'text-orange-300',
+  keyword: 'text-fuchsia-300'
+};
+
+function renderInline(nodes: Inline[], userId?: string): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-black/30 text-cyan-200 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children, userId)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, userId)}</em>;
+      case 'mention':
+        return (
+          <span
+            key={index}
+            className={`px-1 rounded font-medium ${
+              node.userId === userId ? 'bg-amber-400/25 text-amber-200' : 'bg-cyan-400/15 text-cyan-200'
+            }`}
+          >
+            {node.text}
+          </span>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-cyan-300 underline underline-offset-2 hover:text-cyan-200 break-all"
+          >
+            {node.href}
+          </a>
+        );
+    }
+  });
+}
+
+function CodeBlock({ code, lang }: { code: string; lang: string }) {
+  const tokens = useMemo<CodeToken[]>(() => highlightCode(code, lang), [code, lang]);
+
+  return (
+    <div className="my-1 rounded-lg bg-black/40 border border-white/10 overflow-hidden">
+      {lang && (
+        <div className="px-3 py-1 text-[10px] uppercase tracking-wide text-white/40 border-b border-white/10">
+          {lang}
+        </div>
+      )}
+      <pre className="px-3 py-2 overflow-x-auto text-sm font-mono text-white/90">
+        <code>
+          {tokens.map((token, index) =>
+            token.kind === 'plain'
+              ? token.text
+              : <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+// Message text with Markdown formatting. Everything is rendered as React
+// elements, never as HTML, so the text can't inject markup.
+function Markdown({ text, className = '', mentions, userId }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(text, mentions), [text, mentions]);
+
+  return (
+    <div className={`break-words space-y-1 ${className}`}>
+      {blocks.map((block, index) =>
+        block.type === 'code' ? (
+          <CodeBlock key={index} code={block.code} lang={block.lang} />
+        ) : (
+          <p key={index} className="whitespace-pre-wrap">
+            {renderInline(block.children, userId)}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+export default Markdown;
@@ -1,41 +1,196 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
+import Markdown from './Markdown';
+import { ReplyTarget, RoomUser, SendOptions, UploadStatus } from '../types';
+import { MAX_MESSAGE_LENGTH } from '../../protocol';
+
+// While typing, "typing" is re-sent at most this often, and "stopped" follows
+// once the keyboard has been quiet for TYPING_IDLE
+const TYPING_REFRESH = 3000;
+const TYPING_IDLE = 4000;
+// Most @mention suggestions shown at once
+const MAX_SUGGESTIONS = 6;
 
 interface MessageInputProps {
-  onSendMessage: (text: string, fileInfo?: { fileUrl: string; fileName: string }) => void;
-  onUploadFile: (file: File) => Promise<{ fileUrl: string; fileName: string } | null>;
+  onSendMessage: (
+    text: string,
+    fileInfo?: { fileUrl: string; fileName: string },
+    options?: SendOptions
+  ) => void;
+  onUploadFile: (file: File, options?: SendOptions) => Promise<{ fileUrl: string; fileName: string } | null>;
   isConnected: boolean;
   isUploading: boolean;
+  uploadStatus: UploadStatus | null;
+  maxFileSize: number;
+  // Sending is blocked until this time after the server rate limited us (epoch ms)
+  rateLimitedUntil: number | null;
+  onTypingChange: (typing: boolean) => void;
+  // The message being answered, if any
+  replyTarget: ReplyTarget | null;
+  onCancelReply: () => void;
+  // People in the room, suggested when typing @name
+  users: RoomUser[];
+  userId: string | null;
+  // A message the server refused, put back unless something new was typed
+  refusedDraft: { text: string } | null;
+  onError: (message: string) => void;
 }
 
-function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }: MessageInputProps) {
+function MessageInput({
+  onSendMessage,
+  onUploadFile,
+  isConnected,
+  isUploading,
+  uploadStatus,
+  maxFileSize,
+  rateLimitedUntil,
+  onTypingChange,
+  replyTarget,
+  onCancelReply,
+  users,
+  userId,
+  refusedDraft,
+  onError
+}: MessageInputProps) {
   const [text, setText] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [viewOnce, setViewOnce] = useState(false);
+  // Show the formatted message above the input while typing
+  const [showPreview, setShowPreview] = useState(false);
+  // The @word being typed at the caret, and the highlighted suggestion for it
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; end: number; query: string } | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textInputRef = useRef<HTMLTextAreaElement>(null);
+  // When we last said we were typing (0 when we haven't or have since stopped)
+  const typingSentAtRef = useRef(0);
+  const typingStopTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const stopTyping = () => {
+    if (typingStopTimerRef.current) {
+      clearTimeout(typingStopTimerRef.current);
+      typingStopTimerRef.current = null;
+    }
+    if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      onTypingChange(false);
+    }
+  };
+
+  // Look for an @word ending at the caret
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(value.slice(0, caret));
+    const query = match ? { start: caret - match[1].length - 1, end: caret, query: match[1] } : null;
+    setMentionQuery(current =>
+      current?.start === query?.start && current?.query === query?.query ? current : query
+    );
+    if (query?.query !== mentionQuery?.query) {
+      setSuggestionIndex(0);
+    }
+  };
+
+  const suggestions = mentionQuery
+    ? users
+        .filter(user => user.id !== userId && user.name.toLowerCase().startsWith(mentionQuery.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
 
-  const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1 MB
+  const insertMention = (name: string) => {
+    if (!mentionQuery) return;
+    const before = `${text.slice(0, mentionQuery.start)}@${name} `;
+    handleTextChange(before + text.slice(mentionQuery.end));
+    setMentionQuery(null);
+
+    // Put the caret after the inserted name once React has updated the value
+    requestAnimationFrame(() => {
+      textInputRef.current?.focus();
+      textInputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - typingSentAtRef.current > TYPING_REFRESH) {
+      typingSentAtRef.current = now;
+      onTypingChange(true);
+    }
+
+    if (typingStopTimerRef.current) {
+      clearTimeout(typingStopTimerRef.current);
+    }
+    typingStopTimerRef.current = setTimeout(stopTyping, TYPING_IDLE);
+  };
+
+  useEffect(() => () => {
+    if (typingStopTimerRef.current) {
+      clearTimeout(typingStopTimerRef.current);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (refusedDraft) {
+      setText(current => (current.trim() ? current : refusedDraft.text));
+    }
+  }, [refusedDraft]);
+
+  // Picking a message to reply to moves straight to typing the answer
+  useEffect(() => {
+    if (replyTarget) {
+      textInputRef.current?.focus();
+    }
+  }, [replyTarget]);
+
+  // Tick while rate limited so the countdown stays current
+  useEffect(() => {
+    if (!rateLimitedUntil) return;
+
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 250);
+    const stop = setTimeout(() => clearInterval(interval), Math.max(0, rateLimitedUntil - Date.now()) + 250);
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(stop);
+    };
+  }, [rateLimitedUntil]);
+
+  const waitSeconds = rateLimitedUntil ? Math.max(0, Math.ceil((rateLimitedUntil - now) / 1000)) : 0;
+  const isRateLimited = waitSeconds > 0;
+  const isTooLong = text.trim().length > MAX_MESSAGE_LENGTH;
+  const cannotSend = (!text.trim() && !selectedFile) || isTooLong || !isConnected || isUploading || isRateLimited;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!text.trim() && !selectedFile) return;
+    if (cannotSend) return;
+
+    stopTyping();
 
     let fileInfo: { fileUrl: string; fileName: string } | undefined;
 
     // Upload file if selected
     if (selectedFile) {
-      const result = await onUploadFile(selectedFile);
+      const result = await onUploadFile(selectedFile, { viewOnce });
       if (!result) return; // Upload failed
       fileInfo = result;
     }
 
     // Send message
-    onSendMessage(text.trim(), fileInfo);
+    onSendMessage(text.trim(), fileInfo, { viewOnce, replyTo: replyTarget?.id });
 
     // Reset form
     setText('');
     setSelectedFile(null);
+    setViewOnce(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -49,8 +204,8 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
   };
 
   const validateAndSetFile = (file: File) => {
-    if (file.size > MAX_FILE_SIZE) {
-      alert('File too large. Maximum size is 1 MB.');
+    if (file.size > maxFileSize) {
+      onError(`File too large. Maximum size is ${formatFileSize(maxFileSize)}.`);
       return;
     }
     setSelectedFile(file);
@@ -77,6 +232,25 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(suggestionIndex, suggestions.length - 1)].name);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -91,9 +265,48 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
 
   return (
     <form onSubmit={handleSubmit} className="space-y-2">
+      {/* Message being replied to */}
+      {replyTarget && (
+        <div className="flex items-center gap-2 border-l-2 border-cyan-400/60 bg-white/5 rounded-r-lg px-2 py-1.5">
+          <div className="flex-1 min-w-0 text-xs">
+            <div className="text-cyan-300/80">Replying to {replyTarget.sender}</div>
+            <div className="text-white/60 truncate">
+              {replyTarget.text || (replyTarget.hasFile ? 'Attachment' : '')}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="text-white/50 hover:text-white/80 transition-colors"
+            title="Cancel reply"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {/* Formatted preview of the message */}
+      {showPreview && text.trim() && (
+        <div className="max-h-48 overflow-y-auto bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm">
+          <div className="text-[10px] uppercase tracking-wide text-white/40 mb-1">Preview</div>
+          <Markdown text={text.trim()} className="text-white/90" />
+        </div>
+      )}
+
       {/* Selected file preview */}
       {selectedFile && (
-        <div className="flex items-center gap-2 bg-cyan-500/20 border border-cyan-500/30 rounded-lg p-2">
+        <div className="relative overflow-hidden flex items-center gap-2 bg-cyan-500/20 border border-cyan-500/30 rounded-lg p-2">
+          {/* Upload progress bar */}
+          {uploadStatus && (
+            <div
+              className={`absolute bottom-0 left-0 h-0.5 transition-all ${
+                uploadStatus.waiting ? 'bg-yellow-400 animate-pulse-slow' : 'bg-cyan-400'
+              }`}
+              style={{ width: `${uploadStatus.progress * 100}%` }}
+            />
+          )}
           <svg className="w-5 h-5 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
           </svg>
@@ -101,7 +314,11 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
             {selectedFile.name}
           </span>
           <span className="text-xs text-cyan-300/60">
-            {formatFileSize(selectedFile.size)}
+            {uploadStatus
+              ? uploadStatus.waiting
+                ? `Paused at ${Math.round(uploadStatus.progress * 100)}% • resumes on reconnect`
+                : `${Math.round(uploadStatus.progress * 100)}% of ${formatFileSize(selectedFile.size)}`
+              : formatFileSize(selectedFile.size)}
           </span>
           <button
             type="button"
@@ -120,6 +337,27 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
         </div>
       )}
 
+      {/* @mention suggestions */}
+      {suggestions.length > 0 && (
+        <ul className="bg-slate-900/95 border border-white/15 rounded-lg py-1 text-sm shadow-xl" role="listbox">
+          {suggestions.map((user, index) => (
+            <li key={user.id} role="option" aria-selected={index === suggestionIndex}>
+              <button
+                type="button"
+                // Keep focus in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(user.name)}
+                className={`w-full text-left px-3 py-1.5 transition-colors ${
+                  index === suggestionIndex ? 'bg-cyan-500/20 text-cyan-100' : 'text-white/80 hover:bg-white/10'
+                }`}
+              >
+                @{user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Input area */}
       <div
         className={`flex items-end gap-2 bg-white/10 backdrop-blur-sm rounded-lg p-2 transition-all ${
@@ -133,10 +371,13 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
         <textarea
           ref={textInputRef}
           value={text}
-          onChange={(e) => setText(e.target.value)}
+          onChange={(e) => handleTextChange(e.target.value)}
+          onSelect={(e) => updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setMentionQuery(null)}
           onKeyDown={handleKeyDown}
           placeholder={isConnected ? 'Type a message...' : 'Connecting...'}
           disabled={!isConnected || isUploading}
+          maxLength={MAX_MESSAGE_LENGTH}
           rows={1}
           className="flex-1 bg-transparent text-white placeholder-white/40 resize-none outline-none min-h-[40px] max-h-[120px] py-2 px-2"
           style={{ height: 'auto' }}
@@ -163,19 +404,53 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
               ? 'text-white/20 cursor-not-allowed'
               : 'text-white/50 hover:text-white/80 hover:bg-white/10'
           }`}
-          title="Attach file (max 1 MB)"
+          title={`Attach file (max ${formatFileSize(maxFileSize)})`}
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
           </svg>
         </label>
 
+        {/* Markdown preview toggle */}
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          className={`p-2 rounded-lg transition-colors ${
+            showPreview
+              ? 'text-cyan-300 bg-cyan-500/20'
+              : 'text-white/50 hover:text-white/80 hover:bg-white/10'
+          }`}
+          title="Preview formatting: **bold**, *italic*, `code`, ``` code blocks ```"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+          </svg>
+        </button>
+
+        {/* View once toggle */}
+        <button
+          type="button"
+          onClick={() => setViewOnce(!viewOnce)}
+          disabled={!isConnected || isUploading}
+          className={`p-2 rounded-lg transition-colors ${
+            viewOnce
+              ? 'text-orange-300 bg-orange-500/20'
+              : 'text-white/50 hover:text-white/80 hover:bg-white/10'
+          } disabled:text-white/20 disabled:cursor-not-allowed`}
+          title="View once: not kept for late joiners, attachment deleted after one download"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+          </svg>
+        </button>
+
         {/* Send button */}
         <button
           type="submit"
-          disabled={(!text.trim() && !selectedFile) || !isConnected || isUploading}
+          disabled={cannotSend}
           className={`p-2 rounded-lg transition-all ${
-            (!text.trim() && !selectedFile) || !isConnected || isUploading
+            cannotSend
               ? 'bg-white/10 text-white/30 cursor-not-allowed'
               : 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white hover:from-cyan-400 hover:to-blue-500 shadow-lg hover:shadow-cyan-500/25'
           }`}
@@ -194,9 +469,17 @@ function MessageInput({ onSendMessage, onUploadFile, isConnected, isUploading }:
       </div>
 
       {/* Hint */}
-      <p className="text-xs text-white/30 text-center">
-        Press Enter to send, Shift+Enter for new line • Drag & drop files here
-      </p>
+      {isRateLimited ? (
+        <p className="text-xs text-orange-300 text-center">
+          Slow down • you can send again in {waitSeconds}s
+        </p>
+      ) : (
+        <p className="text-xs text-white/30 text-center">
+          {viewOnce
+            ? 'View once: only people here now will see it, and the file can be downloaded once'
+            : 'Press Enter to send, Shift+Enter for new line • Drag & drop files here'}
+        </p>
+      )}
     </form>
   );
 }
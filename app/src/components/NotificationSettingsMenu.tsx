@@ -0,0 +1,72 @@
+import { NotificationSettings } from '../types';
+
+interface NotificationSettingsMenuProps {
+  settings: NotificationSettings;
+  roomId: string;
+  // False when the browser has no Notification API
+  supported: boolean;
+  // The user blocked notifications for this site
+  blocked: boolean;
+  onChangeDesktop: (desktop: NotificationSettings['desktop']) => void;
+  onToggleMute: () => void;
+}
+
+const DESKTOP_OPTIONS: Array<{ value: NotificationSettings['desktop']; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'mentions', label: 'Mentions only' },
+  { value: 'all', label: 'All messages' }
+];
+
+function NotificationSettingsMenu({
+  settings,
+  roomId,
+  supported,
+  blocked,
+  onChangeDesktop,
+  onToggleMute
+}: NotificationSettingsMenuProps) {
+  const muted = settings.mutedRooms.includes(roomId);
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-64 z-20 bg-slate-900/95 backdrop-blur-md border border-white/20 rounded-lg shadow-xl">
+      <div className="px-3 py-2 text-xs text-white/50 border-b border-white/10">
+        Desktop notifications
+      </div>
+      {supported ? (
+        <div className="p-2 space-y-1">
+          {DESKTOP_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 px-2 py-1 text-sm text-white rounded hover:bg-white/5 cursor-pointer"
+            >
+              <input
+                type="radio"
+                name="desktop-notifications"
+                checked={settings.desktop === option.value}
+                onChange={() => onChangeDesktop(option.value)}
+                className="accent-cyan-400"
+              />
+              {option.label}
+            </label>
+          ))}
+          {blocked && (
+            <p className="px-2 text-xs text-orange-300">
+              Notifications are blocked for this site. Allow them in your browser settings.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="px-3 py-2 text-xs text-white/50">This browser doesn't support notifications.</p>
+      )}
+      <div className="border-t border-white/10 p-2">
+        <label className="flex items-center gap-2 px-2 py-1 text-sm text-white rounded hover:bg-white/5 cursor-pointer">
+          <input type="checkbox" checked={muted} onChange={onToggleMute} className="accent-cyan-400" />
+          Mute this room
+        </label>
+        <p className="px-2 text-xs text-white/40">Muted rooms only notify you when you're mentioned.</p>
+      </div>
+    </div>
+  );
+}
+
+export default NotificationSettingsMenu;
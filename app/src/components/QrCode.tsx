@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { encodeQr } from '../qrcode';
+
+interface QrCodeProps {
+  value: string;
+  // Width and height in pixels
+  size?: number;
+}
+
+// Light modules around the code, which scanners need to find it
+const QUIET_ZONE = 4;
+
+function QrCode({ value, size = 192 }: QrCodeProps) {
+  const modules = useMemo(() => encodeQr(value), [value]);
+  const dimension = modules.length + QUIET_ZONE * 2;
+
+  // One square per dark module, all in a single path
+  const path = useMemo(
+    () =>
+      modules
+        .flatMap((row, y) =>
+          row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''))
+        )
+        .join(''),
+    [modules]
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code for the invite link"
+      className="rounded-lg"
+    >
+      {/* Always dark on white, whatever the theme: not every scanner reads inverted codes */}
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
+
+export default QrCode;
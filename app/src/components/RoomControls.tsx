@@ -0,0 +1,362 @@
+import { useState, useEffect } from 'react';
+import { JoinRequest, KnockRequest, RoomOptions } from '../types';
+
+interface RoomControlsProps {
+  isConnected: boolean;
+  currentRoom: string;
+  onCreateRoom: (username: string, ttl: number, options: RoomOptions) => void;
+  onJoinRoom: (roomId: string, roomKey: string, username: string) => void;
+  // Reopens the join form filled in with this, e.g. to retry a refused join
+  joinDraft: JoinRequest | null;
+  // Host controls, shown inside a private room or channel we host
+  isHost: boolean;
+  // Only encrypted rooms have a key to rotate or invite with
+  isEncrypted: boolean;
+  isLocked: boolean;
+  onToggleLock: () => void;
+  onRotateKey: () => void;
+  onInvite: () => void;
+  // People waiting in the lobby of the current room; any member can answer
+  knocks: KnockRequest[];
+  onAnswerKnock: (userId: string, approve: boolean) => void;
+  // We are waiting in some room's lobby ourselves
+  isKnocking: boolean;
+  onCancelKnock: () => void;
+}
+
+// Message lifetimes a private room can be created with (must match the server)
+const LIFETIME_OPTIONS = [
+  { label: '1 minute', value: 1 * 60 * 1000 },
+  { label: '10 minutes', value: 10 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 }
+];
+
+// Largest member limit the server accepts
+const MAX_MEMBERS = 500;
+
+function RoomControls({
+  isConnected,
+  currentRoom,
+  onCreateRoom,
+  onJoinRoom,
+  joinDraft,
+  isHost,
+  isEncrypted,
+  isLocked,
+  onToggleLock,
+  onRotateKey,
+  onInvite,
+  knocks,
+  onAnswerKnock,
+  isKnocking,
+  onCancelKnock
+}: RoomControlsProps) {
+  const [showCreateRoom, setShowCreateRoom] = useState(false);
+  const [showJoinRoom, setShowJoinRoom] = useState(false);
+  const [createUsername, setCreateUsername] = useState('');
+  const [createTtl, setCreateTtl] = useState(LIFETIME_OPTIONS[1].value);
+  const [createKnock, setCreateKnock] = useState(false);
+  const [createMaxMembers, setCreateMaxMembers] = useState('');
+  const [joinRoomId, setJoinRoomId] = useState('');
+  const [joinRoomKey, setJoinRoomKey] = useState('');
+  const [joinUsername, setJoinUsername] = useState('');
+  // Why the open form can't be submitted, shown under it until it changes
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!joinDraft) return;
+    setJoinRoomId(joinDraft.roomId);
+    setJoinRoomKey(joinDraft.roomKey);
+    setJoinUsername(joinDraft.username);
+    setShowCreateRoom(false);
+    setShowJoinRoom(true);
+    setFormError(null);
+  }, [joinDraft]);
+
+  if (isKnocking) {
+    return (
+      <div className="border-t border-white/10 bg-black/10 p-3">
+        <div className="max-w-4xl mx-auto flex flex-wrap items-center justify-center gap-3">
+          <span className="text-sm text-white/70 animate-pulse">
+            Waiting for someone in the room to let you in...
+          </span>
+          <button
+            onClick={onCancelKnock}
+            disabled={!isConnected}
+            className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (currentRoom !== 'global') {
+    if (!isHost && knocks.length === 0) {
+      return null; // Guests in a private room or channel have nothing to control
+    }
+
+    return (
+      <div className="border-t border-white/10 bg-black/10 p-3 space-y-2">
+        {knocks.length > 0 && (
+          <ul className="max-w-4xl mx-auto space-y-1">
+            {knocks.map(knock => (
+              <li key={knock.userId} className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-sm text-white/80">
+                  <span className="font-medium">{knock.name}</span> is waiting to join
+                </span>
+                <button
+                  onClick={() => onAnswerKnock(knock.userId, true)}
+                  disabled={!isConnected}
+                  className="px-3 py-1.5 text-sm bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Let in
+                </button>
+                <button
+                  onClick={() => onAnswerKnock(knock.userId, false)}
+                  disabled={!isConnected}
+                  className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Turn away
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isHost && (
+          <div className="max-w-4xl mx-auto flex flex-wrap items-center justify-center gap-2">
+            <span className="text-sm text-white/60 mr-1">You host this room</span>
+            {isEncrypted && (
+              <button
+                onClick={onInvite}
+                disabled={!isConnected}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Create an invite link that expires or works once"
+              >
+                Invite
+              </button>
+            )}
+            <button
+              onClick={onToggleLock}
+              disabled={!isConnected}
+              className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={isLocked ? 'Let new people join again' : 'Stop new people from joining'}
+            >
+              {isLocked ? 'Unlock Room' : 'Lock Room'}
+            </button>
+            {isEncrypted && (
+              <button
+                onClick={onRotateKey}
+                disabled={!isConnected}
+                className="px-3 py-1.5 text-sm bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Issue a new key; current members switch to it automatically"
+              >
+                Rotate Key
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const handleCreateRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = createUsername.trim() || 'Host';
+    const maxMembers = createMaxMembers.trim() ? Number(createMaxMembers) : null;
+    if (maxMembers !== null && (!Number.isInteger(maxMembers) || maxMembers < 2 || maxMembers > MAX_MEMBERS)) {
+      setFormError(`Member limits must be a whole number from 2 to ${MAX_MEMBERS}.`);
+      return;
+    }
+
+    onCreateRoom(username, createTtl, { knock: createKnock, maxMembers });
+    setCreateUsername('');
+    setCreateTtl(LIFETIME_OPTIONS[1].value);
+    setCreateKnock(false);
+    setCreateMaxMembers('');
+    setShowCreateRoom(false);
+  };
+
+  const handleJoinRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const roomId = joinRoomId.trim();
+    const roomKey = joinRoomKey.trim();
+    const username = joinUsername.trim() || 'Guest';
+
+    if (!roomId || !roomKey) {
+      setFormError('Enter the room ID and key.');
+      return;
+    }
+
+    onJoinRoom(roomId, roomKey, username);
+    setJoinRoomId('');
+    setJoinRoomKey('');
+    setJoinUsername('');
+    setShowJoinRoom(false);
+  };
+
+  return (
+    <div className="border-t border-white/10 bg-black/10 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* ✅ NEW: Private Rooms heading */}
+        <div className="text-center text-sm text-white/60 mb-2">
+          Private Rooms
+        </div>
+
+        {/* Action Buttons */}
+        {!showCreateRoom && !showJoinRoom && (
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={() => setShowCreateRoom(true)}
+              disabled={!isConnected}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Create Private Room
+            </button>
+            <button
+              onClick={() => setShowJoinRoom(true)}
+              disabled={!isConnected}
+              className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Join Room
+            </button>
+          </div>
+        )}
+
+        {/* Create Room Form */}
+        {showCreateRoom && (
+          <form onSubmit={handleCreateRoom} className="space-y-3">
+            <div className="text-sm text-white/70 text-center">Create a private room</div>
+            <input
+              type="text"
+              value={createUsername}
+              onChange={(e) => setCreateUsername(e.target.value)}
+              placeholder="Your username (optional)"
+              maxLength={20}
+              className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+            />
+            <label className="flex items-center gap-2 text-sm text-white/70">
+              <span className="whitespace-nowrap">Messages disappear after</span>
+              <select
+                value={createTtl}
+                onChange={(e) => setCreateTtl(Number(e.target.value))}
+                className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:border-cyan-400/50"
+              >
+                {LIFETIME_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value} className="bg-slate-800">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <input
+              type="number"
+              value={createMaxMembers}
+              onChange={(e) => {
+                setCreateMaxMembers(e.target.value);
+                setFormError(null);
+              }}
+              placeholder="Member limit (optional)"
+              min={2}
+              max={MAX_MEMBERS}
+              aria-invalid={formError !== null}
+              className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+            />
+            <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={createKnock}
+                onChange={(e) => setCreateKnock(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              Ask before letting people in
+            </label>
+            {formError && (
+              <p className="text-xs text-red-300 text-center" role="alert">{formError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30"
+              >
+                Create Room
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowCreateRoom(false);
+                  setFormError(null);
+                }}
+                className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Join Room Form */}
+        {showJoinRoom && (
+          <form onSubmit={handleJoinRoom} className="space-y-3">
+            <div className="text-sm text-white/70 text-center">Join a private room</div>
+            <input
+              type="text"
+              value={joinRoomId}
+              onChange={(e) => {
+                setJoinRoomId(e.target.value);
+                setFormError(null);
+              }}
+              placeholder="Room ID"
+              required
+              className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+            />
+            <input
+              type="text"
+              value={joinRoomKey}
+              onChange={(e) => {
+                setJoinRoomKey(e.target.value);
+                setFormError(null);
+              }}
+              placeholder="Room Key"
+              required
+              className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+            />
+            <input
+              type="text"
+              value={joinUsername}
+              onChange={(e) => setJoinUsername(e.target.value)}
+              placeholder="Your username (optional)"
+              maxLength={20}
+              className="w-full px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-400/50"
+            />
+            {formError && (
+              <p className="text-xs text-red-300 text-center" role="alert">{formError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30"
+              >
+                Join Room
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowJoinRoom(false);
+                  setFormError(null);
+                }}
+                className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RoomControls;
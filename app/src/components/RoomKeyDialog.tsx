@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import QrCode from './QrCode';
+import { inviteUrl } from '../invites';
+
+interface RoomKeyDialogProps {
+  title: string;
+  roomId: string;
+  roomKey: string;
+  onClose: () => void;
+}
+
+// Shows the details someone needs to join a private room. The key only
+// exists in this browser, so this is the one chance to copy it.
+function RoomKeyDialog({ title, roomId, roomKey, onClose }: RoomKeyDialogProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = async (label: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(label);
+      setTimeout(() => setCopied(current => (current === label ? null : current)), 2000);
+    } catch (error) {
+      console.error(`Failed to copy ${label}:`, error);
+    }
+  };
+
+  const link = inviteUrl({ roomId, roomKey });
+
+  const fields = [
+    { label: 'Invite Link', value: link },
+    { label: 'Room ID', value: roomId },
+    { label: 'Room Key', value: roomKey }
+  ];
+
+  return (
+    // No close on backdrop click: a stray click would lose the key
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="room-key-dialog-title"
+        className="w-full max-w-md bg-slate-900 border border-white/20 rounded-xl shadow-2xl p-5 space-y-4"
+      >
+        <div>
+          <h2 id="room-key-dialog-title" className="text-lg font-semibold text-white">{title}</h2>
+          <p className="text-sm text-white/60 mt-1">
+            Share the invite link or QR code, or the room ID and key, with the people you want to
+            invite. The key never leaves your browser, so save it now: it can't be shown again.
+            The host can also issue invites that expire or work only once.
+          </p>
+        </div>
+
+        <div className="flex justify-center">
+          <QrCode value={link} size={176} />
+        </div>
+
+        {fields.map(field => (
+          <div key={field.label}>
+            <div className="text-xs text-white/50 mb-1">{field.label}</div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-cyan-200 break-all select-all">
+                {field.value}
+              </code>
+              <button
+                onClick={() => copy(field.label, field.value)}
+                className="px-3 py-2 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors border border-white/20"
+              >
+                {copied === field.label ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => copy('both', `Room ID: ${roomId}\nRoom Key: ${roomKey}`)}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 hover:from-cyan-500/30 hover:to-blue-500/30 text-white rounded-lg transition-colors border border-cyan-400/30"
+          >
+            {copied === 'both' ? 'Copied!' : 'Copy Both'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white/10 hover:bg-white/15 text-white rounded-lg transition-colors border border-white/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RoomKeyDialog;
@@ -1,5 +1,22 @@
 import { useEffect, useState } from 'react';
 
+interface RoomBreakdown {
+  rooms: number;
+  members: number;
+}
+
+// One minute of the server's rolling window
+interface ActivityMinute {
+  start: number;
+  messages: number;
+  uploads: number;
+}
+
+interface ChartPoint {
+  label: string;
+  value: number;
+}
+
 interface Stats {
   status: string;
   visits: {
@@ -11,6 +28,12 @@ interface Stats {
     rooms: number;
     connections: number;
   };
+  // Missing from servers older than the charts
+  activeRooms?: {
+    public: RoomBreakdown;
+    private: RoomBreakdown;
+  };
+  lastHour?: ActivityMinute[];
   uptime: number;
 }
 
@@ -18,11 +41,36 @@ const HTTP_URL =
   import.meta.env.VITE_HTTP_URL ||
   'https://oneminute-backend-jvip.onrender.com';
 
+const REFRESH_INTERVAL = 30000;
+
+// Keys as the server writes them: UTC dates (2024-05-31) and months (2024-05),
+// oldest first
+function lastDays(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() - (count - 1 - i));
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+function lastMonths(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() - (count - 1 - i));
+    return date.toISOString().slice(0, 7);
+  });
+}
+
+const visitPoints = (keys: string[], visits: Record<string, number>): ChartPoint[] =>
+  keys.map(key => ({ label: key, value: visits[key] ?? 0 }));
+
 function StatsPanel() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pageVisible, setPageVisible] = useState(() => document.visibilityState === 'visible');
 
   const fetchStats = async () => {
     try {
@@ -41,20 +89,21 @@ function StatsPanel() {
     }
   };
 
-  // Fetch once when panel opens
   useEffect(() => {
-    if (open && !stats) {
-      fetchStats();
-    }
-  }, [open]);
+    const handleVisibilityChange = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
 
-  // Auto refresh every 30s while open
+  // Fetch when the panel opens or the tab comes back, then every 30s.
+  // Nothing is fetched while the tab is hidden.
   useEffect(() => {
-    if (!open) return;
+    if (!open || !pageVisible) return;
 
-    const interval = setInterval(fetchStats, 30000);
+    fetchStats();
+    const interval = setInterval(fetchStats, REFRESH_INTERVAL);
     return () => clearInterval(interval);
-  }, [open]);
+  }, [open, pageVisible]);
 
   const todayKey = new Date().toISOString().slice(0, 10);
   const monthKey = new Date().toISOString().slice(0, 7);
@@ -62,6 +111,12 @@ function StatsPanel() {
   const todayVisits = stats?.visits.daily[todayKey] ?? 0;
   const monthVisits = stats?.visits.monthly[monthKey] ?? 0;
 
+  const lastHour = stats?.lastHour ?? [];
+  const hourMessages = lastHour.reduce((total, minute) => total + minute.messages, 0);
+  const hourUploads = lastHour.reduce((total, minute) => total + minute.uploads, 0);
+  const minuteLabel = (minute: ActivityMinute) =>
+    new Date(minute.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
   const formatUptime = (seconds: number) => {
     const d = Math.floor(seconds / 86400);
     const h = Math.floor((seconds % 86400) / 3600);
@@ -87,7 +142,7 @@ function StatsPanel() {
         </button>
 
         {open && (
-          <div className="pb-4">
+          <div className="pb-4 max-h-[60vh] overflow-y-auto">
             {loading && !stats && (
               <div className="text-center text-white/50 py-6">
                 Loading stats…
@@ -108,6 +163,48 @@ function StatsPanel() {
                 <Stat label="Visits Today" value={todayVisits} />
                 <Stat label="Visits This Month" value={monthVisits} />
                 <Stat label="Uptime" value={formatUptime(stats.uptime)} />
+                {stats.activeRooms && (
+                  <>
+                    <Stat
+                      label="Public Rooms"
+                      value={stats.activeRooms.public.rooms}
+                      detail={`${stats.activeRooms.public.members} online`}
+                    />
+                    <Stat
+                      label="Private Rooms"
+                      value={stats.activeRooms.private.rooms}
+                      detail={`${stats.activeRooms.private.members} online`}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            {stats && (
+              <div className="grid md:grid-cols-2 gap-3 mt-3">
+                <ChartCard title="Visits, last 30 days">
+                  <BarChart points={visitPoints(lastDays(30), stats.visits.daily)} />
+                </ChartCard>
+                <ChartCard title="Visits, last 12 months">
+                  <BarChart points={visitPoints(lastMonths(12), stats.visits.monthly)} />
+                </ChartCard>
+                {lastHour.length > 0 && (
+                  <>
+                    <ChartCard
+                      title="Messages per minute, last hour"
+                      summary={`${(hourMessages / lastHour.length).toFixed(1)} avg`}
+                    >
+                      <Sparkline
+                        points={lastHour.map(minute => ({ label: minuteLabel(minute), value: minute.messages }))}
+                      />
+                    </ChartCard>
+                    <ChartCard title="Uploads, last hour" summary={`${hourUploads} total`}>
+                      <BarChart
+                        points={lastHour.map(minute => ({ label: minuteLabel(minute), value: minute.uploads }))}
+                      />
+                    </ChartCard>
+                  </>
+                )}
               </div>
             )}
 
@@ -129,13 +226,64 @@ function StatsPanel() {
   );
 }
 
-function Stat({ label, value }: { label: string; value: string | number }) {
+function Stat({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
   return (
     <div className="bg-white/5 border border-white/10 rounded-lg p-3">
       <div className="text-xs text-white/50">{label}</div>
       <div className="text-2xl font-bold text-white">{value}</div>
+      {detail && <div className="text-xs text-white/40">{detail}</div>}
     </div>
   );
 }
 
+function ChartCard({ title, summary, children }: { title: string; summary?: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+      <div className="flex justify-between text-xs text-white/50 mb-2">
+        <span>{title}</span>
+        {summary && <span>{summary}</span>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// One bar per point, scaled to the largest; hover a bar for its value
+function BarChart({ points }: { points: ChartPoint[] }) {
+  const max = Math.max(1, ...points.map(point => point.value));
+
+  return (
+    <svg viewBox={`0 0 ${points.length * 10} 40`} preserveAspectRatio="none" className="w-full h-16">
+      {points.map((point, i) => {
+        const height = Math.max(0.5, (point.value / max) * 40);
+        return (
+          <rect key={point.label} x={i * 10 + 1} y={40 - height} width={8} height={height} className="fill-cyan-400/70">
+            <title>{`${point.label}: ${point.value}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+function Sparkline({ points }: { points: ChartPoint[] }) {
+  const max = Math.max(1, ...points.map(point => point.value));
+  const step = 100 / Math.max(1, points.length - 1);
+  const y = (value: number) => 39 - (value / max) * 38;
+  const peak = points.reduce((best, point) => (point.value > best.value ? point : best), points[0]);
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16">
+      <title>{peak && peak.value > 0 ? `Busiest minute: ${peak.label} (${peak.value})` : 'No messages'}</title>
+      <polyline
+        points={points.map((point, i) => `${i * step},${y(point.value)}`).join(' ')}
+        fill="none"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+        className="stroke-cyan-400"
+      />
+    </svg>
+  );
+}
+
 export default StatsPanel;
@@ -0,0 +1,53 @@
+import { Toast } from '../types';
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TONE_CLASSES: Record<Toast['tone'], string> = {
+  error: 'bg-red-500/20 border-red-500/40 text-red-100',
+  info: 'bg-slate-800/90 border-white/20 text-white',
+  success: 'bg-green-500/20 border-green-500/40 text-green-100'
+};
+
+// Stack of short-lived notifications in the corner; they never block the chat
+function Toasts({ toasts, onDismiss }: ToastsProps) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.tone === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-2 px-3 py-2 rounded-lg border backdrop-blur-md shadow-xl animate-fadeIn ${TONE_CLASSES[toast.tone]}`}
+        >
+          <p className="flex-1 text-sm">{toast.message}</p>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                onDismiss(toast.id);
+              }}
+              className="text-sm font-medium text-cyan-300 hover:text-cyan-200 whitespace-nowrap transition-colors"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => onDismiss(toast.id)}
+            className="text-white/50 hover:text-white/80 transition-colors"
+            title="Dismiss"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default Toasts;
@@ -0,0 +1,31 @@
+interface TypingIndicatorProps {
+  names: string[];
+}
+
+// "Ana is typing…", "Ana and Ben are typing…", "Ana, Ben and 2 others are typing…"
+const describeTyping = (names: string[]): string => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]} are typing…`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing…`;
+};
+
+function TypingIndicator({ names }: TypingIndicatorProps) {
+  // Always takes up its line so the input doesn't jump when someone starts typing
+  return (
+    <div className="h-5 mb-1 px-1 text-xs text-white/50 truncate" aria-live="polite">
+      {names.length > 0 && (
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-flex gap-0.5">
+            <span className="w-1 h-1 rounded-full bg-white/50 animate-pulse" />
+            <span className="w-1 h-1 rounded-full bg-white/50 animate-pulse [animation-delay:150ms]" />
+            <span className="w-1 h-1 rounded-full bg-white/50 animate-pulse [animation-delay:300ms]" />
+          </span>
+          {describeTyping(names)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default TypingIndicator;
@@ -0,0 +1,102 @@
+import { RoomUser } from '../types';
+
+interface UserListProps {
+  users: RoomUser[];
+  userId: string | null;
+  // The current user hosts this room and gets moderation controls
+  canModerate: boolean;
+  onKick: (userId: string) => void;
+  onMute: (userId: string, minutes: number) => void;
+  onBan: (userId: string) => void;
+  onMakeHost: (userId: string) => void;
+  // Open a direct message thread with the user
+  onMessage: (user: RoomUser) => void;
+}
+
+// Mute lengths offered to hosts, in minutes
+const MUTE_OPTIONS = [1, 5, 15, 60];
+
+function UserList({ users, userId, canModerate, onKick, onMute, onBan, onMakeHost, onMessage }: UserListProps) {
+  const isMuted = (user: RoomUser) => Boolean(user.mutedUntil && user.mutedUntil > Date.now());
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 max-h-96 overflow-y-auto z-20 bg-slate-900/95 backdrop-blur-md border border-white/20 rounded-lg shadow-xl">
+      <div className="px-3 py-2 text-xs text-white/50 border-b border-white/10">
+        Users online ({users.length})
+      </div>
+      <ul className="divide-y divide-white/5">
+        {users.map(user => (
+          <li key={user.id} className="px-3 py-2">
+            <div className="flex items-center gap-2 text-sm text-white">
+              <span
+                className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                  user.status === 'away' ? 'bg-yellow-400' : 'bg-green-500'
+                }`}
+                title={user.status === 'away' ? 'Away' : 'Active'}
+              />
+              <span className="truncate">{user.name}</span>
+              {user.id === userId && <span className="text-xs text-white/40">(You)</span>}
+              {user.isHost && (
+                <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-300">
+                  Host
+                </span>
+              )}
+              {isMuted(user) && (
+                <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300">
+                  Muted
+                </span>
+              )}
+              {user.id !== userId && (
+                <button
+                  onClick={() => onMessage(user)}
+                  className="ml-auto px-2 py-0.5 text-xs bg-white/10 hover:bg-white/20 text-white rounded transition-colors"
+                  title="Send a direct message"
+                >
+                  Message
+                </button>
+              )}
+            </div>
+
+            {canModerate && user.id !== userId && (
+              <div className="flex flex-wrap items-center gap-1 mt-1.5">
+                <button
+                  onClick={() => onKick(user.id)}
+                  className="px-2 py-0.5 text-xs bg-white/10 hover:bg-white/20 text-white rounded transition-colors"
+                >
+                  Kick
+                </button>
+                <select
+                  value=""
+                  onChange={(e) => onMute(user.id, Number(e.target.value))}
+                  className="px-1 py-0.5 text-xs bg-white/10 hover:bg-white/20 text-white rounded transition-colors focus:outline-none"
+                  title="Mute this user"
+                >
+                  <option value="" disabled className="bg-slate-800">Mute…</option>
+                  {MUTE_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes} className="bg-slate-800">
+                      {minutes < 60 ? `${minutes} min` : `${minutes / 60} hour`}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onBan(user.id)}
+                  className="px-2 py-0.5 text-xs bg-red-500/20 hover:bg-red-500/30 text-red-200 rounded transition-colors"
+                >
+                  Ban
+                </button>
+                <button
+                  onClick={() => onMakeHost(user.id)}
+                  className="px-2 py-0.5 text-xs bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-200 rounded transition-colors"
+                >
+                  Make host
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default UserList;
@@ -0,0 +1,123 @@
+// End-to-end encryption helpers for private rooms.
+//
+// The room key never leaves the browser. Two values are derived from it with
+// HKDF: an AES-GCM key used to encrypt message text and file contents, and an
+// auth token the server stores (hashed) to check that joiners hold the key.
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const IV_LENGTH = 12;
+
+// Bytes added to every encrypted payload (IV + GCM auth tag)
+export const ENCRYPTION_OVERHEAD = IV_LENGTH + 16;
+
+export interface RoomKeys {
+  auth: string;
+  key: CryptoKey;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// Generate a fresh room key (128 bits, URL-safe base64)
+export const generateRoomKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Derive the auth token and the encryption key from a room key
+export const deriveRoomKeys = async (roomKey: string): Promise<RoomKeys> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(roomKey),
+    'HKDF',
+    false,
+    ['deriveBits', 'deriveKey']
+  );
+
+  const salt = encoder.encode('oneminute-room');
+
+  const authBits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('auth') },
+    material,
+    256
+  );
+
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('encryption') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  return { auth: toHex(authBits), key };
+};
+
+// Encrypt raw bytes; the IV is prepended to the ciphertext
+export const encryptBytes = async (key: CryptoKey, data: ArrayBuffer) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+
+  const result = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  result.set(iv, 0);
+  result.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return result;
+};
+
+export const decryptBytes = async (key: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(data);
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+    key,
+    bytes.slice(IV_LENGTH)
+  );
+};
+
+// Encrypt a string into base64 ciphertext suitable for JSON frames
+export const encryptText = async (key: CryptoKey, text: string): Promise<string> => {
+  const encrypted = await encryptBytes(key, encoder.encode(text).buffer as ArrayBuffer);
+  return toBase64(encrypted);
+};
+
+export const decryptText = async (key: CryptoKey, value: string): Promise<string> => {
+  const decrypted = await decryptBytes(key, fromBase64(value).buffer as ArrayBuffer);
+  return decoder.decode(decrypted);
+};
+
+// Decrypt with the first key that works. After a key rotation, older messages
+// still need the keys they were encrypted with.
+export const decryptWithAny = async <T>(
+  keys: CryptoKey[],
+  decrypt: (key: CryptoKey) => Promise<T>
+): Promise<T> => {
+  let lastError: unknown = new Error('No key to decrypt with');
+  for (const key of keys) {
+    try {
+      return await decrypt(key);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,42 @@
+import { ErrorCode, ErrorDetails } from './types';
+
+const formatTime = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// What to tell the user for each error code the server sends
+const ERROR_MESSAGES: Record<ErrorCode, (details: ErrorDetails) => string> = {
+  RATE_LIMITED: ({ retryAfter }) =>
+    `You're going too fast. Try again in ${Math.ceil((retryAfter ?? 1000) / 1000)}s.`,
+  NOT_HOST: () => 'Only the room host can do that.',
+  INVALID_ROOM_KEY: () => 'No room matches that ID and key. The room may have closed, or the key is wrong.',
+  CANNOT_TARGET_SELF: () => "You can't do that to yourself.",
+  USER_NOT_IN_ROOM: () => 'That user is no longer in the room.',
+  INVALID_MUTE_DURATION: ({ maxMinutes }) => `Mutes can last from 1 to ${maxMinutes ?? 1440} minutes.`,
+  ENCRYPTION_REQUIRED: () => 'This room only accepts encrypted messages. Rejoin it with the room key.',
+  MUTED: ({ until }) =>
+    until ? `The host muted you until ${formatTime(until)}.` : 'The host muted you.',
+  MESSAGE_EMPTY: () => 'Type a message or attach a file first.',
+  MESSAGE_TOO_LONG: ({ maxLength }) => `Messages can be up to ${maxLength ?? 4000} characters long.`,
+  INVALID_USERNAME: () => 'Usernames must be 1 to 20 characters long.',
+  INVALID_TTL: () => "That message lifetime isn't available.",
+  BANNED: () => 'The host banned you from this room.',
+  ROOM_LOCKED: () => 'This room is locked. Ask the host to unlock it.',
+  USERNAME_TAKEN: ({ username }) =>
+    username ? `Someone in this room is already called "${username}".` : 'That username is taken in this room.',
+  INVALID_MESSAGE: () => 'The server could not understand that request.',
+  UNSUPPORTED_PROTOCOL: () => 'This version of OneMinute is out of date. Reload the page to update.',
+  MESSAGE_NOT_FOUND: () => 'That message has already expired.',
+  NOT_MESSAGE_OWNER: () => 'You can only edit or unsend your own messages.',
+  INVALID_INVITE: () => 'This invite link has expired or was already used. Ask the host for a new one.',
+  INVALID_CHANNEL: () => 'Channel names need 1 to 40 characters and topics up to 200.',
+  CHANNEL_NAME_TAKEN: ({ name }) =>
+    name ? `There is already a channel called "${name}".` : 'There is already a channel with that name.',
+  ROOM_FULL: ({ maxMembers }) =>
+    maxMembers ? `This room is full (${maxMembers} people). Try again later.` : 'This room is full. Try again later.',
+  INVALID_MEMBER_LIMIT: ({ maxMembers }) => `Member limits go from 2 to ${maxMembers ?? 500}.`
+};
+
+// Readable text for an error frame. Codes from a newer server that we
+// don't know yet fall back to the server's own message.
+export const describeError = (code: ErrorCode, message: string, details: ErrorDetails = {}): string =>
+  ERROR_MESSAGES[code]?.(details) ?? message ?? 'Something went wrong.';
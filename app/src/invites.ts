@@ -0,0 +1,46 @@
+// Invite links put everything after the `#`, which browsers never send to
+// the server, so neither the room key nor the secret for an issued invite
+// ends up in server logs.
+
+import { decryptText, deriveRoomKeys, encryptText, generateRoomKey } from './crypto';
+import { InviteLink } from './types';
+
+// A link to this page that joins the room
+export function inviteUrl(invite: InviteLink): string {
+  const params = new URLSearchParams({ room: invite.roomId });
+  if ('roomKey' in invite) {
+    params.set('key', invite.roomKey);
+  } else if ('token' in invite) {
+    params.set('invite', invite.token);
+    params.set('secret', invite.secret);
+  }
+  return `${window.location.origin}${window.location.pathname}#${params}`;
+}
+
+// The invite in a URL fragment, or null if it doesn't hold one
+export function parseInviteLink(hash: string): InviteLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const roomId = params.get('room');
+  const roomKey = params.get('key');
+  const token = params.get('invite');
+  const secret = params.get('secret');
+
+  if (!roomId) return null;
+  if (roomKey) return { roomId, roomKey };
+  if (token && secret) return { roomId, token, secret };
+  return { roomId };
+}
+
+// Seal a room key for an issued invite. The server keeps `sealedKey` and
+// hands it to whoever redeems the invite; `secret` only goes in the link.
+export async function sealInviteKey(roomKey: string): Promise<{ secret: string; sealedKey: string }> {
+  const secret = generateRoomKey();
+  const { key } = await deriveRoomKeys(secret);
+  return { secret, sealedKey: await encryptText(key, roomKey) };
+}
+
+// The room key from a redeemed invite
+export async function openInviteKey(secret: string, sealedKey: string): Promise<string> {
+  const { key } = await deriveRoomKeys(secret);
+  return decryptText(key, sealedKey);
+}
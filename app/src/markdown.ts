@@ -0,0 +1,368 @@
+// A small Markdown subset for chat messages: fenced code blocks, inline code,
+// bold, italic, bare http(s) links and @mentions. Parsing produces plain data that
+// components/Markdown.tsx turns into React elements, so there is no HTML
+// passthrough: text that looks like a tag is shown as typed.
+
+import { mentionPattern } from '../protocol';
+import { Mention } from './types';
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'link'; href: string }
+  | { type: 'mention'; userId: string; text: string };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; code: string };
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface CodeToken {
+  kind: TokenKind;
+  text: string;
+}
+
+// --- Inline parsing ---
+
+interface InlineRule {
+  // Sticky, so it only matches text starting where the scanner is
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => Inline;
+}
+
+// Tried in order at each position, before emphasis, so the contents of code
+// and links are never formatted.
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /\\([\\`*_])/y, build: m => ({ type: 'text', text: m[1] }) },
+  { pattern: /`([^`\n]+)`/y, build: m => ({ type: 'code', text: m[1] }) },
+  // Trailing punctuation is more likely the end of the sentence than of the URL
+  { pattern: /https?:\/\/[^\s<>"]*[^\s<>"'.,;:!?)\]*_]/y, build: m => ({ type: 'link', href: m[0] }) }
+];
+
+interface Emphasis {
+  delimiter: string;
+  type: 'strong' | 'em';
+}
+
+// Emphasis opens on a delimiter followed by a non-space and closes at the next
+// delimiter after a non-space on the same line. Single delimiters only
+// contain their own delimiter as the last character, and `_` doesn't work
+// inside words, so snake_case names stay as they are.
+const EMPHASIS: Emphasis[] = [
+  { delimiter: '**', type: 'strong' },
+  { delimiter: '__', type: 'strong' },
+  { delimiter: '*', type: 'em' },
+  { delimiter: '_', type: 'em' }
+];
+
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isWord = (ch: string | undefined) => ch !== undefined && /\w/.test(ch);
+
+// Index of the first value in `sorted` that is at least `min`
+function firstAtLeast(sorted: number[], min: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < min) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// The inline rules plus one for the users a message mentions. Mentions go
+// before emphasis, since names may contain `_` or `*`.
+function rulesFor(mentions: Mention[]): InlineRule[] {
+  const pattern = mentionPattern(mentions.map(mention => mention.name));
+  if (!pattern) return INLINE_RULES;
+
+  const userIds = new Map(mentions.map(mention => [mention.name.toLowerCase(), mention.userId]));
+  const mentionRule: InlineRule = {
+    pattern: new RegExp(pattern.source, 'iy'),
+    build: m => ({ type: 'mention', userId: userIds.get(m[1].toLowerCase()) ?? '', text: m[0] })
+  };
+  return [...INLINE_RULES, mentionRule];
+}
+
+// One pass from left to right. Closing delimiters are looked up rather than
+// searched for from every opening one, so text full of unmatched `**` still
+// parses in linear time.
+function parseInline(text: string, rules: InlineRule[] = INLINE_RULES): Inline[] {
+  const nodes: Inline[] = [];
+  const newlines: number[] = [];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) newlines.push(i);
+  const closers = new Map<string, number[]>(); // double delimiter -> where it can close, built on first use
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  const lineEnd = (from: number) => newlines[firstAtLeast(newlines, from)] ?? text.length;
+
+  const closersFor = (delimiter: string) => {
+    let found = closers.get(delimiter);
+    if (!found) {
+      found = [];
+      for (let i = text.indexOf(delimiter, 1); i !== -1; i = text.indexOf(delimiter, i + 1)) {
+        if (!isSpace(text[i - 1])) found.push(i);
+      }
+      closers.set(delimiter, found);
+    }
+    return found;
+  };
+
+  // Where emphasis opening at `start` closes, or -1 if it doesn't
+  const findClose = (start: number, delimiter: string) => {
+    const from = start + delimiter.length;
+    if (!text.startsWith(delimiter, start) || isSpace(text[from])) return -1;
+    if (delimiter === '_' && isWord(text[start - 1])) return -1;
+
+    let close: number | undefined;
+    if (delimiter.length > 1) {
+      const found = closersFor(delimiter);
+      close = found[firstAtLeast(found, from + 1)];
+    } else {
+      // The text inside may end with one delimiter, as in `***`
+      const next = text.indexOf(delimiter, from);
+      close = [next, next + 1].find(at =>
+        next !== -1 && at > from && text[at] === delimiter && !isSpace(text[at - 1]) &&
+        !(delimiter === '_' && isWord(text[at + 1])));
+    }
+    return close !== undefined && close < lineEnd(from) ? close : -1;
+  };
+
+  const matchAt = (start: number): { node: Inline; end: number } | null => {
+    for (const rule of rules) {
+      rule.pattern.lastIndex = start;
+      const match = rule.pattern.exec(text);
+      if (match) return { node: rule.build(match), end: start + match[0].length };
+    }
+
+    for (const { delimiter, type } of EMPHASIS) {
+      const close = findClose(start, delimiter);
+      if (close !== -1) {
+        const children = parseInline(text.slice(start + delimiter.length, close), rules);
+        return { node: { type, children }, end: close + delimiter.length };
+      }
+    }
+    return null;
+  };
+
+  let textStart = 0;
+  let i = 0;
+  while (i < text.length) {
+    const found = matchAt(i);
+    if (!found) {
+      i++;
+      continue;
+    }
+
+    pushText(text.slice(textStart, i));
+    if (found.node.type === 'text') {
+      pushText(found.node.text);
+    } else {
+      nodes.push(found.node);
+    }
+    i = textStart = found.end;
+  }
+  pushText(text.slice(textStart));
+
+  return nodes;
+}
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}```\s*([\w+#-]*)\s*$/;
+
+// Split a message into paragraphs and fenced code blocks. A fence left open
+// runs to the end of the message, as it would while still being typed.
+// `mentions` are the users the message mentions, as resolved by the server.
+export function parseMarkdown(text: string, mentions: Mention[] = []): Block[] {
+  const rules = rulesFor(mentions);
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let code: { lang: string; lines: string[] } | null = null;
+
+  const flushParagraph = () => {
+    const value = paragraph.join('\n').replace(/^\n+|\n+$/g, '');
+    if (value) {
+      blocks.push({ type: 'paragraph', children: parseInline(value, rules) });
+    }
+    paragraph = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const fence = FENCE.exec(line);
+    if (code) {
+      if (fence && !fence[1]) {
+        blocks.push({ type: 'code', lang: code.lang, code: code.lines.join('\n') });
+        code = null;
+      } else {
+        code.lines.push(line);
+      }
+    } else if (fence) {
+      flushParagraph();
+      code = { lang: fence[1].toLowerCase(), lines: [] };
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  if (code) {
+    blocks.push({ type: 'code', lang: code.lang, code: code.lines.join('\n') });
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+// --- Syntax highlighting ---
+
+interface Grammar {
+  keywords: Set<string>;
+  // What starts a comment running to the end of the line
+  lineComments: string[];
+  blockComments: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE = 'if else for while do switch case default break continue return new try catch finally throw';
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    keywords: words(`${C_LIKE} const let var function class extends import export from as async await yield typeof instanceof in of this super null undefined true false void delete`),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  ts: {
+    keywords: words(`${C_LIKE} const let var function class extends implements import export from as async await yield typeof instanceof keyof in of this super null undefined true false void delete interface type enum readonly public private protected abstract declare namespace`),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  py: {
+    keywords: words('def class return if elif else for while in not and or is import from as with try except finally raise pass break continue lambda yield async await global nonlocal None True False self'),
+    lineComments: ['#'],
+    blockComments: false
+  },
+  go: {
+    keywords: words(`${C_LIKE} func package import var const type struct interface map chan go defer select range fallthrough goto nil true false`),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  rust: {
+    keywords: words('fn let mut const static struct enum impl trait pub use mod crate self Self super match if else for while loop break continue return move ref as in where async await dyn unsafe true false Some None Ok Err'),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  c: {
+    keywords: words(`${C_LIKE} int char float double long short unsigned signed void struct union enum typedef const static extern sizeof include define class public private protected virtual template typename namespace using nullptr true false NULL`),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  java: {
+    keywords: words(`${C_LIKE} class interface extends implements public private protected static final abstract void int long double float boolean char byte short import package this super null true false var record`),
+    lineComments: ['//'],
+    blockComments: true
+  },
+  sh: {
+    keywords: words('if then else elif fi for while until do done case esac in function return local export echo exit'),
+    lineComments: ['#'],
+    blockComments: false
+  },
+  sql: {
+    keywords: words('select from where insert into values update set delete create table drop alter join left right inner outer on group by order having limit and or not null as distinct union index primary key'),
+    lineComments: ['--'],
+    blockComments: true
+  },
+  json: {
+    keywords: words('true false null'),
+    lineComments: [],
+    blockComments: false
+  }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js',
+  typescript: 'ts', tsx: 'ts',
+  python: 'py',
+  golang: 'go',
+  rs: 'rust',
+  h: 'c', cpp: 'c', 'c++': 'c', cc: 'c', cs: 'c', 'c#': 'c', csharp: 'c',
+  kotlin: 'java', kt: 'java',
+  bash: 'sh', shell: 'sh', zsh: 'sh',
+  postgres: 'sql', mysql: 'sql'
+};
+
+const isWordChar = (ch: string) => /[\w$]/.test(ch);
+
+// Split code into tokens for colouring. Languages we don't know come back as
+// a single plain token.
+export function highlightCode(code: string, lang: string): CodeToken[] {
+  const grammar = GRAMMARS[LANGUAGE_ALIASES[lang] ?? lang];
+  if (!grammar) return [{ kind: 'plain', text: code }];
+
+  // SQL keywords are usually written in either case
+  const caseless = grammar === GRAMMARS.sql;
+  const tokens: CodeToken[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+
+    const lineComment = grammar.lineComments.find(start => code.startsWith(start, i));
+    if (lineComment) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+    } else if (grammar.blockComments && code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      push('comment', code.slice(i, stop));
+      i = stop;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      // Strings end at the matching quote or, unless backquoted, the line
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && (ch === '`' || code[j] !== '\n')) {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(j + 1, code.length);
+      push('string', code.slice(i, stop));
+      i = stop;
+    } else if (/\d/.test(ch) && (i === 0 || !isWordChar(code[i - 1]))) {
+      const match = /^(0x[\da-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?)/i.exec(code.slice(i));
+      const text = match ? match[0] : ch;
+      push('number', text);
+      i += text.length;
+    } else if (isWordChar(ch)) {
+      let j = i + 1;
+      while (j < code.length && isWordChar(code[j])) j++;
+      const word = code.slice(i, j);
+      push(grammar.keywords.has(caseless ? word.toLowerCase() : word) ? 'keyword' : 'plain', word);
+      i = j;
+    } else {
+      push('plain', ch);
+      i++;
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,124 @@
+import { NotificationSettings } from './types';
+
+// The only thing OneMinute keeps in the browser: which notifications you want
+const STORAGE_KEY = 'oneminute:notifications';
+
+const DEFAULT_SETTINGS: NotificationSettings = { desktop: 'off', mutedRooms: [] };
+
+export const notificationsSupported = typeof Notification !== 'undefined';
+
+export function loadNotificationSettings(): NotificationSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return {
+      desktop: ['off', 'mentions', 'all'].includes(stored?.desktop) ? stored.desktop : DEFAULT_SETTINGS.desktop,
+      mutedRooms: Array.isArray(stored?.mutedRooms)
+        ? stored.mutedRooms.filter((roomId: unknown) => typeof roomId === 'string')
+        : []
+    };
+  } catch {
+    // Storage disabled or unreadable: fall back to no notifications
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save notification settings:', error);
+  }
+}
+
+// Whether a new message deserves a desktop notification. Muted rooms still
+// notify about mentions, which are addressed to you personally.
+export function shouldNotify(settings: NotificationSettings, roomId: string, mentioned: boolean): boolean {
+  if (!notificationsSupported || Notification.permission !== 'granted') return false;
+  if (settings.desktop === 'off') return false;
+  if (mentioned) return true;
+  return settings.desktop === 'all' && !settings.mutedRooms.includes(roomId);
+}
+
+// Ask for permission if we don't have it yet. Resolves to whether we may notify.
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+export function showNotification(title: string, body: string, tag: string, onClick: () => void) {
+  try {
+    // Same tag: a burst of messages replaces one notification instead of stacking
+    const notification = new Notification(title, { body, tag, silent: false });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Failed to show notification:', error);
+  }
+}
+
+// --- Favicon badge ---
+
+let originalFavicon: string | null | undefined;
+
+const faviconLink = () => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  return link;
+};
+
+// Draw the app icon with the unread count on it, or restore the normal icon
+export function setFaviconBadge(count: number) {
+  const link = faviconLink();
+  if (originalFavicon === undefined) {
+    originalFavicon = link.getAttribute('href');
+  }
+
+  if (count <= 0) {
+    if (originalFavicon) {
+      link.href = originalFavicon;
+      link.type = 'image/svg+xml';
+    } else {
+      link.removeAttribute('href');
+    }
+    return;
+  }
+
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const gradient = ctx.createLinearGradient(0, 0, size, size);
+  gradient.addColorStop(0, '#22d3ee');
+  gradient.addColorStop(1, '#2563eb');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size / 2 - 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ef4444';
+  ctx.beginPath();
+  ctx.arc(size - 20, 20, 20, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 26px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(count > 99 ? '99' : String(count), size - 20, 21);
+
+  link.type = 'image/png';
+  link.href = canvas.toDataURL('image/png');
+}
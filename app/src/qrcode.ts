@@ -0,0 +1,372 @@
+// A small QR code encoder for invite links: byte mode, error correction level
+// M, the smallest version the text fits in and whichever of the eight masks
+// scores best. Follows ISO/IEC 18004 the way Project Nayuki's reference
+// encoder does.
+
+// Modules by row, then column; true is dark
+export type QrMatrix = boolean[][];
+
+// Error correction codewords per block and number of blocks at level M, by version
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+];
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+];
+// Level M in the format information
+const ECC_LEVEL_BITS = 0;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and error correction once the patterns are drawn
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+
+// --- Reed-Solomon error correction over GF(256) ---
+
+function rsMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = rsMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = rsMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= rsMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Split the data into blocks, add error correction to each and interleave them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = rsDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    // Placeholder so short and long blocks line up; skipped when interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// Mode, length, the bytes themselves and padding up to the version's capacity
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+// --- Drawing ---
+
+interface Grid {
+  version: number;
+  size: number;
+  modules: QrMatrix;
+  // Finder, timing, alignment, format and version modules, which masks skip
+  isFunction: boolean[][];
+}
+
+function createGrid(version: number): Grid {
+  const size = version * 4 + 17;
+  const blank = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { version, size, modules: blank(), isFunction: blank() };
+}
+
+function setFunction(grid: Grid, x: number, y: number, dark: boolean) {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+}
+
+function drawFinder(grid: Grid, x: number, y: number) {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < grid.size && yy >= 0 && yy < grid.size) {
+        setFunction(grid, xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+}
+
+function drawAlignment(grid: Grid, x: number, y: number) {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      setFunction(grid, x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+function alignmentPositions({ version, size }: Grid): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+function drawFormat(grid: Grid, mask: number) {
+  const { size } = grid;
+  const data = (ECC_LEVEL_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  // Next to the top left finder
+  for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, getBit(bits, i));
+  setFunction(grid, 8, 7, getBit(bits, 6));
+  setFunction(grid, 8, 8, getBit(bits, 7));
+  setFunction(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, getBit(bits, i));
+
+  // Copy split between the other two finders, plus the always-dark module
+  for (let i = 0; i < 8; i++) setFunction(grid, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunction(grid, 8, size - 15 + i, getBit(bits, i));
+  setFunction(grid, 8, size - 8, true);
+}
+
+function drawVersion(grid: Grid) {
+  const { version, size } = grid;
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const dark = getBit(bits, i);
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunction(grid, a, b, dark);
+    setFunction(grid, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(grid: Grid) {
+  const { size } = grid;
+  for (let i = 0; i < size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0);
+    setFunction(grid, i, 6, i % 2 === 0);
+  }
+
+  drawFinder(grid, 3, 3);
+  drawFinder(grid, size - 4, 3);
+  drawFinder(grid, 3, size - 4);
+
+  const positions = alignmentPositions(grid);
+  const last = positions.length - 1;
+  positions.forEach((y, i) => {
+    positions.forEach((x, j) => {
+      // Not on top of the finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      drawAlignment(grid, x, y);
+    });
+  });
+
+  // Reserve the format area; the real bits go in once the mask is chosen
+  drawFormat(grid, 0);
+  drawVersion(grid);
+}
+
+// Zigzag up and down two columns at a time, right to left
+function drawCodewords(grid: Grid, codewords: number[]) {
+  const { size, modules, isFunction } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // skip the vertical timing pattern
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && i < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+}
+
+// XOR the data modules with a mask pattern; applying it twice undoes it
+function applyMask(grid: Grid, mask: number) {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+// Look-alikes of the finder pattern, with four light modules on one side
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+// How hard the symbol is to scan; lower is better
+function penalty(modules: QrMatrix): number {
+  const size = modules.length;
+  let result = 0;
+
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i], modules.map(row => row[i]));
+  }
+
+  for (const line of lines) {
+    // Runs of five or more modules of one colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) result += run - 2;
+      run = 1;
+    }
+
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    for (const pattern of FINDER_LIKE) {
+      for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+        result += 40;
+      }
+    }
+  }
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+        result += 3;
+      }
+    }
+  }
+
+  // Too far from half dark
+  const total = size * size;
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return result;
+}
+
+// Encode text (as UTF-8) into a QR code. Throws if it is too long for any version.
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) {
+      throw new Error('Text is too long for a QR code');
+    }
+  }
+
+  const grid = createGrid(version);
+  drawFunctionPatterns(grid);
+  drawCodewords(grid, addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormat(grid, mask);
+    const score = penalty(grid.modules);
+    if (score < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = score;
+    }
+    applyMask(grid, mask);
+  }
+
+  applyMask(grid, bestMask);
+  drawFormat(grid, bestMask);
+  return grid.modules;
+}
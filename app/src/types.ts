@@ -1,49 +1,102 @@
-export interface Message {
+// Wire frames and the shapes inside them are defined once in /protocol,
+// shared with the server
+export type {
+  ChannelInfo,
+  ChannelSummary,
+  ClientFrame,
+  DirectMessage,
+  ErrorCode,
+  ErrorDetails,
+  KnockRequest,
+  Mention,
+  Message,
+  ReplyQuote,
+  RoomUser,
+  ServerFrame as WebSocketMessage,
+  UserStatus
+} from '../protocol';
+import type { DirectMessage } from '../protocol';
+
+export interface SendOptions {
+  viewOnce?: boolean;
+  // ID of the message being answered
+  replyTo?: string;
+}
+
+// The message the user is about to answer, as shown above the input
+export interface ReplyTarget {
   id: string;
-  text: string;
-  timestamp: number;
   sender: string;
-  senderId: string;
-  fileUrl?: string;
-  fileName?: string;
-  remainingTime?: number;
-}
-
-export type WebSocketMessage =
-  | {
-      type: 'identity';
-      userId: string;
-      anonName: string;
-    }
-  | {
-      type: 'init';
-      roomId: string;
-      messages: Message[];
-      username: string;
-    }
-  | {
-      type: 'new_message';
-      message: Message;
-    }
-  | {
-      type: 'room_created';
-      roomId: string;
-      roomKey: string;
-      username: string;
-    }
-  | {
-      type: 'room_joined';
-      roomId: string;
-      messages: Message[];
-      username: string;
-    }
-  | {
-      type: 'error';
-      message: string;
-    }
-  | {
-      type: 'pong';
-    };
+  // Decrypted text, possibly long; shortened for display
+  text: string;
+  hasFile: boolean;
+}
+
+// A one-to-one conversation, by the other person's user ID
+export interface DirectThread {
+  userId: string;
+  name: string;
+  messages: DirectMessage[];
+  // Messages received since the thread was last open
+  unread: number;
+}
+
+// What an invite link carries after the `#`
+export type InviteLink =
+  // The room key itself
+  | { roomId: string; roomKey: string }
+  // A token the host issued, and the secret that opens the key sealed with it
+  | { roomId: string; token: string; secret: string }
+  // A public channel, which needs no key
+  | { roomId: string };
+
+// Choices for a new private room besides the username and message lifetime
+export interface RoomOptions {
+  // Joiners wait in a lobby until someone in the room lets them in
+  knock: boolean;
+  maxMembers: number | null;
+}
+
+// An invite the host just issued, as shown in the invite dialog
+export interface IssuedInvite {
+  url: string;
+  singleUse: boolean;
+  expiresAt: number;
+}
+
+// Desktop notification preferences, kept in localStorage
+export interface NotificationSettings {
+  // Which new messages raise a desktop notification while the tab is hidden
+  desktop: 'off' | 'mentions' | 'all';
+  // Rooms that only notify about mentions
+  mutedRooms: string[];
+}
+
+export interface Toast {
+  id: number;
+  tone: 'error' | 'info' | 'success';
+  message: string;
+  // Stays up until dismissed instead of going away by itself
+  sticky?: boolean;
+  // Optional button, e.g. to retry what failed
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
+}
+
+// A private room join, kept so a refused one can be retried
+export interface JoinRequest {
+  roomId: string;
+  roomKey: string;
+  username: string;
+}
+
+export interface UploadStatus {
+  progress: number;
+  // Paused until the connection comes back
+  waiting: boolean;
+}
 
 export interface FileUploadResponse {
   fileUrl: string;
@@ -0,0 +1,188 @@
+import { FileUploadResponse } from './types';
+
+// Files larger than this go through the resumable chunked upload API
+export const CHUNKED_UPLOAD_THRESHOLD = 1024 * 1024;
+
+// How many times a chunked upload waits for the connection before giving up
+const MAX_RESUME_ATTEMPTS = 20;
+
+// The request never reached the server (offline, dropped connection).
+// Unlike a server-side rejection, this is worth retrying.
+export class UploadNetworkError extends Error {}
+
+// The server rate limited the upload; it may be retried after `retryAfter` ms
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Turn an error reply into the matching error
+const replyError = (status: number, data: { error?: string; retryAfter?: number }) =>
+  status === 429
+    ? new RateLimitError(data.error || 'Too many uploads', data.retryAfter ?? 5000)
+    : new Error(data.error || 'Upload failed');
+
+interface SendRequest {
+  method: 'POST' | 'PUT';
+  url: string;
+  body: Blob;
+  mimeType: string;
+  headers?: Record<string, string>;
+  onProgress?: (fraction: number) => void;
+}
+
+// Send a binary body and parse the JSON reply. fetch() cannot report upload
+// progress, so this goes through XMLHttpRequest.
+const sendWithProgress = <T>({
+  method,
+  url,
+  body,
+  mimeType,
+  headers = {},
+  onProgress
+}: SendRequest): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.setRequestHeader('Content-Type', mimeType);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      let data: { error?: string; retryAfter?: number } = {};
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error page from a proxy; fall through to a generic error
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(data as T);
+      } else {
+        reject(replyError(xhr.status, data));
+      }
+    };
+
+    xhr.onerror = () => reject(new UploadNetworkError('Upload failed. Check your connection.'));
+    xhr.send(body);
+  });
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new UploadNetworkError('Upload failed. Check your connection.');
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw replyError(response.status, data);
+  }
+  return data as T;
+};
+
+interface UploadRequest {
+  url: string;
+  body: Blob;
+  mimeType: string;
+  headers?: Record<string, string>;
+  onProgress?: (fraction: number) => void;
+}
+
+// Single-shot upload of a raw binary body
+export const uploadWithProgress = (request: UploadRequest): Promise<FileUploadResponse> =>
+  sendWithProgress<FileUploadResponse>({ method: 'POST', ...request });
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  received: number[];
+}
+
+interface ChunkedUploadRequest {
+  baseUrl: string;
+  body: Blob;
+  fileName: string;
+  mimeType: string;
+  roomId: string;
+  burnAfterDownload: boolean;
+  onProgress?: (fraction: number) => void;
+  onWaiting?: (waiting: boolean) => void;
+  // Resolves once it is worth retrying, e.g. after the socket reconnects
+  waitForConnection: () => Promise<void>;
+}
+
+// Upload a file in numbered chunks. When the connection drops, wait for it to
+// come back, ask the server which chunks it already has and send the rest.
+export const uploadInChunks = async ({
+  baseUrl,
+  body,
+  fileName,
+  mimeType,
+  roomId,
+  burnAfterDownload,
+  onProgress,
+  onWaiting,
+  waitForConnection
+}: ChunkedUploadRequest): Promise<FileUploadResponse> => {
+  const session = await requestJson<UploadSession>(`${baseUrl}/uploads`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName, mimeType, size: body.size, roomId, burnAfterDownload })
+  });
+
+  const { uploadId, chunkSize, totalChunks } = session;
+  const sessionUrl = `${baseUrl}/uploads/${uploadId}`;
+  let received = new Set(session.received);
+  let attempts = 0;
+
+  const chunkBytes = (index: number) =>
+    Math.min(chunkSize, body.size - index * chunkSize);
+  const receivedBytes = () =>
+    Array.from(received).reduce((total, index) => total + chunkBytes(index), 0);
+
+  for (;;) {
+    try {
+      if (attempts > 0) {
+        const status = await requestJson<UploadSession>(sessionUrl);
+        received = new Set(status.received);
+      }
+
+      for (let index = 0; index < totalChunks; index++) {
+        if (received.has(index)) continue;
+
+        const done = receivedBytes();
+        const chunk = body.slice(index * chunkSize, index * chunkSize + chunkBytes(index));
+        await sendWithProgress({
+          method: 'PUT',
+          url: `${sessionUrl}/chunks/${index}`,
+          body: chunk,
+          mimeType: 'application/octet-stream',
+          onProgress: (fraction) => onProgress?.((done + fraction * chunk.size) / body.size)
+        });
+        received.add(index);
+      }
+
+      return await requestJson<FileUploadResponse>(`${sessionUrl}/complete`, { method: 'POST' });
+    } catch (error) {
+      if (!(error instanceof UploadNetworkError) || ++attempts > MAX_RESUME_ATTEMPTS) {
+        throw error;
+      }
+
+      onWaiting?.(true);
+      await waitForConnection();
+      onWaiting?.(false);
+    }
+  }
+};
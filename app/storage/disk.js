@@ -0,0 +1,89 @@
+// On-disk storage backend. Rooms, messages, file metadata and counters are
+// kept in memory like the memory backend and written to <dir>/state.json
+// shortly after every change; file contents live in <dir>/files/. State
+// survives a restart, minus anything that expired in the meantime.
+
+import fs from 'fs';
+import path from 'path';
+import { createMemoryStorage } from './memory.js';
+
+const SAVE_DELAY = 1000; // batch writes from bursts of changes
+
+// Blob store keeping file contents as one file each
+function createDiskBlobs(dir) {
+  fs.mkdirSync(dir, { recursive: true });
+
+  // File IDs are generated by the server, but never trust them as paths
+  const blobPath = (id) => path.join(dir, `${String(id).replace(/[^\w-]/g, '_')}.bin`);
+
+  return {
+    write: (id, data) => fs.writeFileSync(blobPath(id), data),
+    read: (id) => {
+      try {
+        return fs.readFileSync(blobPath(id));
+      } catch {
+        return null;
+      }
+    },
+    remove: (id) => fs.rmSync(blobPath(id), { force: true })
+  };
+}
+
+export function createDiskStorage(dir) {
+  const statePath = path.join(dir, 'state.json');
+  let saveTimer = null;
+  let saving = false; // a write and rename is in flight
+  let dirty = false; // something changed while it was
+  let storage = null;
+
+  // Only one save runs at a time, so an older snapshot can never be renamed
+  // over a newer one, nor two writes interleave in the same tmp file
+  function save() {
+    saveTimer = null;
+    saving = true;
+    const tmpPath = `${statePath}.tmp`;
+    const done = (error) => {
+      if (error) console.error('Failed to save state:', error);
+      saving = false;
+      if (dirty) {
+        dirty = false;
+        scheduleSave();
+      }
+    };
+    // Write then rename so a crash mid-write never leaves a truncated file
+    fs.writeFile(tmpPath, JSON.stringify(storage.snapshot()), (error) => {
+      if (error) {
+        done(error);
+        return;
+      }
+      fs.rename(tmpPath, statePath, done);
+    });
+  }
+
+  function scheduleSave() {
+    if (!storage || saveTimer) return;
+    if (saving) {
+      dirty = true;
+      return;
+    }
+    saveTimer = setTimeout(save, SAVE_DELAY);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  const loaded = createMemoryStorage({
+    blobs: createDiskBlobs(path.join(dir, 'files')),
+    onChange: scheduleSave
+  });
+
+  if (fs.existsSync(statePath)) {
+    try {
+      loaded.restore(JSON.parse(fs.readFileSync(statePath, 'utf8')));
+      console.log(`Restored ${loaded.roomCount()} rooms and ${loaded.messageCount()} messages from ${dir}`);
+    } catch (error) {
+      console.error(`Ignoring unreadable state in ${statePath}:`, error);
+    }
+  }
+
+  storage = loaded;
+  return storage;
+}
@@ -0,0 +1,25 @@
+// Storage backends for rooms, messages, files and counters.
+//
+// Every backend exposes the same synchronous interface (see memory.js):
+//   rooms:    getRoom, hasRoom, saveRoom, deleteRoom, listRooms, roomCount
+//   messages: appendMessage, getMessages, updateMessage, deleteMessage, messageCount
+//   files:    putFile, getFile, updateFile, deleteFile, fileBytes
+//   counters: incrementCounter, getCounters
+// and enforces message and file TTLs itself.
+
+import { createMemoryStorage } from './memory.js';
+import { createDiskStorage } from './disk.js';
+
+export function createStorage({
+  backend = process.env.STORAGE || 'memory',
+  dataDir = process.env.DATA_DIR || './data'
+} = {}) {
+  switch (backend) {
+    case 'memory':
+      return createMemoryStorage();
+    case 'disk':
+      return createDiskStorage(dataDir);
+    default:
+      throw new Error(`Unknown storage backend "${backend}" (expected "memory" or "disk")`);
+  }
+}
@@ -0,0 +1,268 @@
+// In-memory storage backend. Everything lives in Maps and is gone on restart.
+//
+// Expiry is handled here rather than by a sweep in the server: each room has
+// a timer for its oldest message and each file a timer for itself, and reads
+// never return anything past its TTL.
+
+// Blob store keeping file contents in memory
+function createMemoryBlobs() {
+  const blobs = new Map();
+  return {
+    write: (id, data) => blobs.set(id, data),
+    read: (id) => blobs.get(id) || null,
+    remove: (id) => blobs.delete(id)
+  };
+}
+
+export function createMemoryStorage({ blobs = createMemoryBlobs(), onChange = () => {} } = {}) {
+  const rooms = new Map(); // roomId -> { id, isPrivate, ttl, seq, expiredSeq, ... }
+  const messages = new Map(); // roomId -> messages, oldest first
+  const files = new Map(); // fileId -> file metadata (contents in blobs)
+  const counters = new Map(); // name -> Map(key -> count)
+  const timers = new Map(); // 'room:<id>' | 'file:<id>' -> timeout
+
+  function schedule(key, at, fn) {
+    clearTimeout(timers.get(key));
+    const timer = setTimeout(() => {
+      timers.delete(key);
+      fn();
+    }, Math.max(0, at - Date.now()));
+    timer.unref?.();
+    timers.set(key, timer);
+  }
+
+  function unschedule(key) {
+    clearTimeout(timers.get(key));
+    timers.delete(key);
+  }
+
+  // Drop expired messages from the front of a room and arm the timer for the next one
+  function pruneMessages(roomId) {
+    const room = rooms.get(roomId);
+    const list = messages.get(roomId);
+    if (!room || !list) return;
+
+    const now = Date.now();
+    let removed = 0;
+    while (list.length > 0 && now - list[0].timestamp > room.ttl) {
+      // The newest expired message, so replays can tell expiry apart from
+      // messages their senders unsent
+      room.expiredSeq = list.shift().seq;
+      removed++;
+    }
+
+    if (list.length > 0) {
+      schedule(`room:${roomId}`, list[0].timestamp + room.ttl + 1, () => pruneMessages(roomId));
+    } else {
+      unschedule(`room:${roomId}`);
+    }
+
+    if (removed > 0) {
+      console.log(`Expired ${removed} messages in room ${roomId}`);
+      onChange();
+    }
+  }
+
+  function isFileExpired(file) {
+    return Date.now() - file.timestamp > file.ttl;
+  }
+
+  const storage = {
+    // --- Rooms ---
+
+    getRoom(roomId) {
+      return rooms.get(roomId) || null;
+    },
+
+    hasRoom(roomId) {
+      return rooms.has(roomId);
+    },
+
+    // Insert or update room metadata. Call again after changing a room.
+    saveRoom(room) {
+      rooms.set(room.id, room);
+      if (!messages.has(room.id)) {
+        messages.set(room.id, []);
+      }
+      onChange();
+      return room;
+    },
+
+    deleteRoom(roomId) {
+      rooms.delete(roomId);
+      messages.delete(roomId);
+      unschedule(`room:${roomId}`);
+      onChange();
+    },
+
+    listRooms() {
+      return Array.from(rooms.values());
+    },
+
+    roomCount() {
+      return rooms.size;
+    },
+
+    // --- Messages ---
+
+    // Store a message, stamping it with the room's next sequence number
+    appendMessage(roomId, message) {
+      const room = rooms.get(roomId);
+      if (!room) return null;
+
+      message.seq = ++room.seq;
+      messages.get(roomId).push(message);
+      if (messages.get(roomId).length === 1) {
+        pruneMessages(roomId);
+      }
+      onChange();
+      return message;
+    },
+
+    // Messages still within the room's TTL, oldest first
+    getMessages(roomId) {
+      pruneMessages(roomId);
+      return messages.get(roomId)?.slice() || [];
+    },
+
+    updateMessage(roomId, messageId, changes) {
+      const message = messages.get(roomId)?.find(msg => msg.id === messageId);
+      if (!message) return null;
+
+      Object.assign(message, changes);
+      onChange();
+      return message;
+    },
+
+    // Remove a message before its TTL, e.g. when its sender unsends it
+    deleteMessage(roomId, messageId) {
+      const list = messages.get(roomId);
+      const index = list ? list.findIndex(msg => msg.id === messageId) : -1;
+      if (index === -1) return false;
+
+      list.splice(index, 1);
+      if (index === 0) {
+        pruneMessages(roomId); // re-arm the expiry timer for the new oldest message
+      }
+      onChange();
+      return true;
+    },
+
+    messageCount() {
+      let total = 0;
+      messages.forEach(list => {
+        total += list.length;
+      });
+      return total;
+    },
+
+    // --- Files ---
+
+    putFile(file) {
+      const { data, ...meta } = file;
+      blobs.write(file.id, data);
+      files.set(file.id, { ...meta, size: data.length });
+      schedule(`file:${file.id}`, file.timestamp + file.ttl + 1, () => storage.deleteFile(file.id));
+      onChange();
+    },
+
+    // File metadata plus contents, or null if missing or expired
+    getFile(fileId) {
+      const meta = files.get(fileId);
+      if (!meta) return null;
+
+      if (isFileExpired(meta)) {
+        storage.deleteFile(fileId);
+        return null;
+      }
+
+      const data = blobs.read(fileId);
+      return data ? { ...meta, data } : null;
+    },
+
+    // Change a file's metadata; its contents never change
+    updateFile(fileId, changes) {
+      const meta = files.get(fileId);
+      if (!meta) return null;
+
+      Object.assign(meta, changes);
+      onChange();
+      return meta;
+    },
+
+    deleteFile(fileId) {
+      if (!files.delete(fileId)) return;
+      blobs.remove(fileId);
+      unschedule(`file:${fileId}`);
+      onChange();
+    },
+
+    // Total size of all stored file contents
+    fileBytes() {
+      let total = 0;
+      files.forEach(file => {
+        total += file.size;
+      });
+      return total;
+    },
+
+    // --- Counters ---
+
+    incrementCounter(name, key) {
+      if (!counters.has(name)) {
+        counters.set(name, new Map());
+      }
+      const values = counters.get(name);
+      const value = (values.get(key) || 0) + 1;
+      values.set(key, value);
+      onChange();
+      return value;
+    },
+
+    // All keys of a counter as a plain object
+    getCounters(name) {
+      return Object.fromEntries(counters.get(name) || []);
+    },
+
+    // --- Persistence support ---
+
+    // Plain-JSON copy of everything except file contents
+    snapshot() {
+      return {
+        rooms: Array.from(rooms.values()),
+        messages: Object.fromEntries(messages),
+        files: Array.from(files.values()),
+        counters: Object.fromEntries(
+          Array.from(counters, ([name, values]) => [name, Object.fromEntries(values)])
+        )
+      };
+    },
+
+    // Load a snapshot, dropping anything that expired while we were down
+    restore(state) {
+      (state.rooms || []).forEach(room => rooms.set(room.id, room));
+      Object.entries(state.messages || {}).forEach(([roomId, list]) => {
+        if (rooms.has(roomId)) {
+          messages.set(roomId, list);
+          pruneMessages(roomId);
+        }
+      });
+      rooms.forEach((room, roomId) => {
+        if (!messages.has(roomId)) messages.set(roomId, []);
+      });
+      (state.files || []).forEach(file => {
+        files.set(file.id, file);
+        if (isFileExpired(file)) {
+          storage.deleteFile(file.id);
+        } else {
+          schedule(`file:${file.id}`, file.timestamp + file.ttl + 1, () => storage.deleteFile(file.id));
+        }
+      });
+      Object.entries(state.counters || {}).forEach(([name, values]) => {
+        counters.set(name, new Map(Object.entries(values)));
+      });
+    }
+  };
+
+  return storage;
+}